@@ -0,0 +1,61 @@
+#!/usr/bin/env npx tsx
+
+import { add, complete, cycle, save, suite } from 'benny'
+import { atom } from '../src/vanilla/atom.ts'
+import { createStore } from '../src/vanilla/store.ts'
+import { splitAtom } from '../src/vanilla/utils/splitAtom.ts'
+
+type Item = { id: number; value: number }
+
+const createStateWithSplitAtom = (n: number) => {
+  const store = createStore()
+  const arrAtom = atom<Item[]>(
+    Array.from({ length: n }, (_, i) => ({ id: i, value: i })),
+  )
+  const splittedAtom = splitAtom(arrAtom, (item) => item.id)
+  store.sub(splittedAtom, () => {})
+  const itemAtoms = store.get(splittedAtom)
+  for (const itemAtom of itemAtoms) {
+    store.sub(itemAtom, () => {})
+  }
+  return [store, splittedAtom, itemAtoms] as const
+}
+
+const main = async () => {
+  await suite(
+    'split-atom',
+    ...[2, 3, 4].flatMap((n) => [
+      add(`update items=${10 ** n}`, () => {
+        const [store, , itemAtoms] = createStateWithSplitAtom(10 ** n)
+        const targetAtom = itemAtoms[0]!
+        return () =>
+          store.set(targetAtom, (c) => ({ ...c, value: c.value + 1 }))
+      }),
+      add(`move items=${10 ** n}`, () => {
+        const [store, splittedAtom] = createStateWithSplitAtom(10 ** n)
+        return () => {
+          const itemAtoms = store.get(splittedAtom)
+          store.set(splittedAtom, {
+            type: 'move',
+            atom: itemAtoms[0]!,
+            before: itemAtoms[itemAtoms.length - 1]!,
+          })
+        }
+      }),
+    ]),
+    cycle(),
+    complete(),
+    save({
+      folder: __dirname,
+      file: 'split-atom',
+      format: 'json',
+    }),
+    save({
+      folder: __dirname,
+      file: 'split-atom',
+      format: 'chart.html',
+    }),
+  )
+}
+
+main()
@@ -1,4 +1,4 @@
-export { Provider, useStore } from './react/Provider.ts'
+export { Provider, ScopeProvider, useStore } from './react/Provider.ts'
 export { useAtomValue } from './react/useAtomValue.ts'
 export { useSetAtom } from './react/useSetAtom.ts'
 export { useAtom } from './react/useAtom.ts'
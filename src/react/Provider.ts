@@ -1,6 +1,7 @@
 import { createContext, createElement, useContext, useRef } from 'react'
 import type { FunctionComponent, ReactElement, ReactNode } from 'react'
-import { createStore, getDefaultStore } from '../vanilla.ts'
+import { createScopedStore, createStore, getDefaultStore } from '../vanilla.ts'
+import type { Atom } from '../vanilla.ts'
 
 type Store = ReturnType<typeof createStore>
 
@@ -42,3 +43,32 @@ export const Provider = ({
     children,
   )
 }
+
+/**
+ * Provides a store scoping the given atoms to the subtree,
+ * while other atoms are shared with the parent store.
+ * The atoms are fixed on the first render.
+ */
+export const ScopeProvider = ({
+  atoms,
+  children,
+}: {
+  atoms: Iterable<Atom<unknown>>
+  children?: ReactNode
+}): ReactElement<
+  { value: Store | undefined },
+  FunctionComponent<{ value: Store | undefined }>
+> => {
+  const parentStore = useStore()
+  const storeRef = useRef<[parentStore: Store, scopedStore: Store]>(undefined)
+  if (!storeRef.current || storeRef.current[0] !== parentStore) {
+    storeRef.current = [parentStore, createScopedStore(parentStore, atoms)]
+  }
+  return createElement(
+    StoreContext.Provider,
+    {
+      value: storeRef.current[1],
+    },
+    children,
+  )
+}
@@ -1,7 +1,15 @@
 export { atom } from './vanilla/atom.ts'
 export type { Atom, WritableAtom, PrimitiveAtom } from './vanilla/atom.ts'
 
-export { createStore, getDefaultStore } from './vanilla/store.ts'
+export {
+  createStore,
+  createScopedStore,
+  getDefaultStore,
+  AtomCycleError,
+  inspectStore,
+} from './vanilla/store.ts'
+
+export { shallowEqual, deepEqual } from './vanilla/equality.ts'
 
 export type {
   Getter,
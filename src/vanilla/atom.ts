@@ -2,10 +2,18 @@ import type { INTERNAL_PrdStore as Store } from './store'
 
 type Getter = <Value>(atom: Atom<Value>) => Value
 
-type Setter = <Value, Args extends unknown[], Result>(
-  atom: WritableAtom<Value, Args, Result>,
-  ...args: Args
-) => Result
+type Setter = {
+  <Value, Args extends unknown[], Result>(
+    atom: WritableAtom<Value, Args, Result>,
+    ...args: Args
+  ): Result
+  /**
+   * Runs `fn` as a transaction in the store the atom is written in.
+   * Updates in `fn` are restored if it throws.
+   * It is set on the `set` of write functions called by a store.
+   */
+  transaction?: <Result>(fn: (get: Getter, set: Setter) => Result) => Result
+}
 
 type SetAtom<Args extends unknown[], Result> = <A extends Args>(
   ...args: A
@@ -33,6 +41,19 @@ type WithInitialValue<Value> = {
 
 type OnUnmount = () => void
 
+type AtomOptions<Value> = {
+  /**
+   * Stable key to identify the atom across processes,
+   * for example between server and client bundles.
+   */
+  key?: string
+  /**
+   * Function to decide if a new value is equal to the previous one.
+   * Equal values are not propagated to dependents and listeners.
+   */
+  equals?: (prev: Value, next: Value) => boolean
+}
+
 type OnMount<Args extends unknown[], Result> = <
   S extends SetAtom<Args, Result>,
 >(
@@ -43,6 +64,15 @@ export interface Atom<Value> {
   toString: () => string
   read: Read<Value>
   unstable_is?(a: Atom<unknown>): boolean
+  /**
+   * Only set if the atom is created with the `key` option.
+   */
+  key?: string
+  /**
+   * Only set if the atom is created with the `equals` option.
+   * Promises are not compared.
+   */
+  equals?(prev: Value, next: Value): boolean
   debugLabel?: string
   /**
    * To ONLY be used by Jotai libraries to mark atoms as private. Subject to change.
@@ -54,6 +84,18 @@ export interface Atom<Value> {
    * This is still an experimental API and subject to change without notice.
    */
   unstable_onInit?: (store: Store) => void
+  /**
+   * Fires after the atom state is evicted from a store,
+   * if no other store has a state of the atom
+   * This is still an experimental API and subject to change without notice.
+   */
+  unstable_onEvict?: (store: Store) => void
+  /**
+   * Keeps the atom state in stores with an eviction policy,
+   * for atoms that are used as per-store refs
+   * This is still an experimental API and subject to change without notice.
+   */
+  unstable_noEvict?: boolean
 }
 
 export interface WritableAtom<Value, Args extends unknown[], Result>
@@ -73,19 +115,71 @@ export type PrimitiveAtom<Value> = WritableAtom<
 
 let keyCount = 0 // global key count for all atoms
 
+// for detecting duplicate keys in dev mode
+let keyedAtoms:
+  | Map<string, [atomRef: WeakRef<Atom<unknown>>, site: string | undefined]>
+  | undefined
+
+// Returns the locations of the first two stack frames outside this module,
+// without the query strings that bundlers add to hot reloaded modules.
+// The caller is included, so that atoms created by a helper function
+// called from different places have different sites.
+const getDefinitionSite = (): string | undefined => {
+  const frames: [url: string, position: string][] = []
+  for (const line of (new Error().stack || '').split('\n')) {
+    const match = line.match(/(?:\(|@|at )([^()\s]+):(\d+:\d+)\)?\s*$/)
+    if (match) {
+      frames.push([match[1]!.replace(/\?.*$/, ''), match[2]!])
+    }
+  }
+  const ownUrl = frames[0]?.[0]
+  const outerFrames = frames.filter(([url]) => url !== ownUrl).slice(0, 2)
+  return outerFrames.length
+    ? outerFrames.map((frame) => frame.join(':')).join(' < ')
+    : undefined
+}
+
+const registerAtomKey = (key: string, anAtom: Atom<unknown>) => {
+  if (typeof WeakRef === 'undefined') {
+    return
+  }
+  if (!keyedAtoms) {
+    keyedAtoms = new Map()
+  }
+  const site = getDefinitionSite()
+  const [registeredAtomRef, registeredSite] = keyedAtoms.get(key) || []
+  const registeredAtom = registeredAtomRef?.deref()
+  if (
+    registeredAtom &&
+    registeredAtom !== anAtom &&
+    // re-evaluated modules, for example on hot reload, are not duplicates
+    (!site || site !== registeredSite)
+  ) {
+    console.warn(
+      `Detected duplicate atom key "${key}". Atom keys should be unique.`,
+    )
+  }
+  keyedAtoms.set(key, [new WeakRef(anAtom), site])
+}
+
 // writable derived atom
 export function atom<Value, Args extends unknown[], Result>(
   read: Read<Value, SetAtom<Args, Result>>,
   write: Write<Args, Result>,
+  options?: AtomOptions<Value>,
 ): WritableAtom<Value, Args, Result>
 
 // read-only derived atom
-export function atom<Value>(read: Read<Value>): Atom<Value>
+export function atom<Value>(
+  read: Read<Value>,
+  options?: AtomOptions<Value>,
+): Atom<Value>
 
 // write-only derived atom
 export function atom<Value, Args extends unknown[], Result>(
   initialValue: Value,
   write: Write<Args, Result>,
+  options?: AtomOptions<Value>,
 ): WritableAtom<Value, Args, Result> & WithInitialValue<Value>
 
 // primitive atom without initial value
@@ -95,13 +189,19 @@ export function atom<Value>(): PrimitiveAtom<Value | undefined> &
 // primitive atom
 export function atom<Value>(
   initialValue: Value,
+  options?: AtomOptions<Value>,
 ): PrimitiveAtom<Value> & WithInitialValue<Value>
 
 export function atom<Value, Args extends unknown[], Result>(
   read?: Value | Read<Value, SetAtom<Args, Result>>,
-  write?: Write<Args, Result>,
+  write?: Write<Args, Result> | AtomOptions<Value>,
+  options?: AtomOptions<Value>,
 ) {
-  const key = `atom${++keyCount}`
+  if (write && typeof write !== 'function') {
+    options = write
+    write = undefined
+  }
+  const key = options?.key ?? `atom${++keyCount}`
   const config = {
     toString() {
       return import.meta.env?.MODE !== 'production' && this.debugLabel
@@ -119,6 +219,15 @@ export function atom<Value, Args extends unknown[], Result>(
   if (write) {
     config.write = write
   }
+  if (options?.equals) {
+    config.equals = options.equals
+  }
+  if (options?.key !== undefined) {
+    config.key = options.key
+    if (import.meta.env?.MODE !== 'production') {
+      registerAtomKey(options.key, config)
+    }
+  }
   return config
 }
 
@@ -0,0 +1,92 @@
+const isObject = (x: unknown): x is object =>
+  typeof x === 'object' && x !== null
+
+const hasSameKeys = (
+  a: object,
+  b: object,
+  isEqual: (x: unknown, y: unknown) => boolean,
+) => {
+  const aKeys = Object.keys(a)
+  if (aKeys.length !== Object.keys(b).length) {
+    return false
+  }
+  return aKeys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      isEqual(a[key as keyof typeof a], b[key as keyof typeof b]),
+  )
+}
+
+const isEqualObject = (
+  a: object,
+  b: object,
+  isEqual: (x: unknown, y: unknown) => boolean,
+): boolean => {
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return false
+  }
+  if (Array.isArray(a)) {
+    const bArray = b as unknown[]
+    return (
+      a.length === bArray.length && a.every((v, i) => isEqual(v, bArray[i]))
+    )
+  }
+  if (a instanceof Map) {
+    const bMap = b as Map<unknown, unknown>
+    if (a.size !== bMap.size) {
+      return false
+    }
+    for (const [key, v] of a) {
+      if (!bMap.has(key) || !isEqual(v, bMap.get(key))) {
+        return false
+      }
+    }
+    return true
+  }
+  if (a instanceof Set) {
+    const bSet = b as Set<unknown>
+    if (a.size !== bSet.size) {
+      return false
+    }
+    for (const v of a) {
+      if (!bSet.has(v)) {
+        return false
+      }
+    }
+    return true
+  }
+  if (a instanceof Date) {
+    return a.getTime() === (b as Date).getTime()
+  }
+  return hasSameKeys(a, b, isEqual)
+}
+
+/**
+ * Compares two values with `Object.is`, and objects one level deep.
+ * Arrays are compared by elements, maps and sets by entries,
+ * and other objects by own enumerable properties.
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) {
+    return true
+  }
+  if (!isObject(a) || !isObject(b)) {
+    return false
+  }
+  return isEqualObject(a, b, Object.is)
+}
+
+/**
+ * Compares two values like `shallowEqual`, but recursively.
+ * Set elements and map keys are still compared with `Object.is`.
+ * Values must not have circular references.
+ */
+export function deepEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) {
+    return true
+  }
+  if (!isObject(a) || !isObject(b)) {
+    return false
+  }
+  return isEqualObject(a, b, deepEqual)
+}
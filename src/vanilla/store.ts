@@ -1,3 +1,4 @@
+import { atom } from './atom.ts'
 import type { Atom, WritableAtom } from './atom.ts'
 
 type AnyValue = unknown
@@ -20,6 +21,31 @@ const hasInitialValue = <T extends Atom<AnyValue>>(
 const isActuallyWritableAtom = (atom: AnyAtom): atom is AnyWritableAtom =>
   !!(atom as AnyWritableAtom).write
 
+//
+// Cycle Detection
+//
+
+// Nested flushes or flush iterations beyond this are considered a write loop.
+// Listeners may update atoms step by step until a condition is met,
+// so the limit is high, but nested flushes are kept below
+// the depth at which they would overflow the call stack.
+const MAX_FLUSH_COUNT = 1000
+
+const getAtomLabel = (atom: AnyAtom) => atom.debugLabel || String(atom)
+
+/**
+ * Thrown when atoms depend on each other in a cycle,
+ * or when writes in listeners or `onMount` keep triggering each other.
+ */
+export class AtomCycleError extends Error {
+  atoms: AnyAtom[]
+  constructor(message: string, atoms: AnyAtom[]) {
+    super(`${message}: ${atoms.map(getAtomLabel).join(' -> ')}`)
+    this.name = 'AtomCycleError'
+    this.atoms = atoms
+  }
+}
+
 //
 // Cancelable Promise
 //
@@ -108,24 +134,34 @@ type AtomState<Value = AnyValue> = {
    * TODO(daishi): move this out of AtomState
    */
   m?: Mounted // only available if the atom is mounted
-  /**
-   * Listener to notify when the atom value is updated.
-   * This is an experimental API and will be changed in the next minor.
-   * TODO(daishi): move this store hooks
-   */
-  u?: () => void
-  /**
-   * Listener to notify when the atom is mounted or unmounted.
-   * This is an experimental API and will be changed in the next minor.
-   * TODO(daishi): move this store hooks
-   */
-  h?: () => void
   /** Atom value */
   v?: Value
   /** Atom error */
   e?: AnyError
 }
 
+/**
+ * Atom state recorded when an atom is first touched in a transaction,
+ * so that it can be restored if the transaction is rolled back.
+ */
+type AtomStateSnapshot = readonly [
+  atomState: AtomState,
+  hasValue: boolean,
+  value: AnyValue,
+  hasError: boolean,
+  error: AnyError,
+  epochNumber: EpochNumber,
+  dependencies: Map<AnyAtom, EpochNumber>,
+  isChanged: boolean,
+]
+
+type Transaction = readonly [
+  snapshots: Map<AnyAtom, AtomStateSnapshot>,
+  // pending promises are canceled once the transaction is committed,
+  // so that a rollback can restore them
+  cancels: (() => void)[],
+]
+
 const isAtomStateInitialized = <Value>(atomState: AtomState<Value>) =>
   'v' in atomState || 'e' in atomState
 
@@ -192,6 +228,101 @@ type StoreArgs = readonly [
   ) => OnUnmount | void,
 ]
 
+type AtomHookEvent = {
+  readonly atom: AnyAtom
+  readonly prev: AnyValue
+  readonly next: AnyValue
+}
+
+type AtomHook = {
+  /**
+   * Adds a listener for the atom,
+   * or for all atoms if the atom is undefined.
+   * Returns a function to remove the listener.
+   */
+  add: (
+    atom: AnyAtom | undefined,
+    listener: (event: AtomHookEvent) => void,
+  ) => () => void
+}
+
+type FlushHook = {
+  add: (listener: () => void) => () => void
+}
+
+/**
+ * Events emitted by the store.
+ * `prev` and `next` are the atom values before and after the event.
+ * For mount and unmount events, both are the current value.
+ */
+type StoreHooks = {
+  /** Fires when an atom state is created in the store. */
+  readonly init: AtomHook
+  /** Fires when an atom value is (re)computed. */
+  readonly read: AtomHook
+  /**
+   * Fires when an atom value is changed by a write,
+   * or when a mounted dependent is recomputed with a new value.
+   * It also fires when a rolled back transaction restores the value.
+   */
+  readonly change: AtomHook
+  /** Fires when an atom is mounted. */
+  readonly mount: AtomHook
+  /** Fires when an atom is unmounted. */
+  readonly unmount: AtomHook
+  /** Fires before listeners are notified. */
+  readonly flush: FlushHook
+}
+
+const createAtomHook = (): readonly [
+  hook: AtomHook,
+  emit: (atom: AnyAtom, prev: AnyValue, next: AnyValue) => void,
+] => {
+  const listenersMap = new Map<
+    AnyAtom | undefined,
+    Set<(event: AtomHookEvent) => void>
+  >()
+  const hook: AtomHook = {
+    add: (atom, listener) => {
+      let listeners = listenersMap.get(atom)
+      if (!listeners) {
+        listeners = new Set()
+        listenersMap.set(atom, listeners)
+      }
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+        if (!listeners.size && listenersMap.get(atom) === listeners) {
+          listenersMap.delete(atom)
+        }
+      }
+    },
+  }
+  const emit = (atom: AnyAtom, prev: AnyValue, next: AnyValue) => {
+    if (!listenersMap.size) {
+      return
+    }
+    const event: AtomHookEvent = { atom, prev, next }
+    listenersMap.get(atom)?.forEach((listener) => listener(event))
+    listenersMap.get(undefined)?.forEach((listener) => listener(event))
+  }
+  return [hook, emit]
+}
+
+const createFlushHook = (): readonly [hook: FlushHook, emit: () => void] => {
+  const listeners = new Set<() => void>()
+  const hook: FlushHook = {
+    add: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+  const emit = () => listeners.forEach((listener) => listener())
+  return [hook, emit]
+}
+
 // for debugging purpose only
 type DevStoreRev4 = {
   dev4_get_internal_weak_map: () => {
@@ -208,16 +339,26 @@ type Store = {
     ...args: Args
   ) => Result
   sub: (atom: AnyAtom, listener: () => void) => () => void
+  transaction: <Result>(fn: (get: Getter, set: Setter) => Result) => Result
+  /**
+   * Sets values of atoms with an initial value in a single transaction,
+   * without calling their write functions.
+   */
+  restore: (values: Iterable<readonly [AnyAtom, AnyValue]>) => void
+  hooks: StoreHooks
   unstable_derive: (fn: (...args: StoreArgs) => StoreArgs) => Store
 }
 
 export type INTERNAL_DevStoreRev4 = DevStoreRev4
 export type INTERNAL_PrdStore = Store
 
-/**
- * This is an experimental API and will be changed in the next minor.
- */
-const INTERNAL_flushStoreHook = Symbol.for('JOTAI.EXPERIMENTAL.FLUSHSTOREHOOK')
+// for inspecting stores
+type StoreInternals = readonly [
+  getAtomState: StoreArgs[0],
+  mountedAtoms: Set<AnyAtom>,
+]
+
+const storeInternalsMap = new WeakMap<Store, StoreInternals>()
 
 const buildStore = (...storeArgs: StoreArgs): Store => {
   const [
@@ -228,6 +369,12 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
     atomOnInit,
     atomOnMount,
   ] = storeArgs
+  const [initHook, emitInit] = createAtomHook()
+  const [readHook, emitRead] = createAtomHook()
+  const [changeHook, emitChange] = createAtomHook()
+  const [mountHook, emitMount] = createAtomHook()
+  const [unmountHook, emitUnmount] = createAtomHook()
+  const [flushHook, emitFlush] = createFlushHook()
   const ensureAtomState = <Value>(atom: Atom<Value>) => {
     if (import.meta.env?.MODE !== 'production' && !atom) {
       throw new Error('Atom is undefined or null')
@@ -236,6 +383,7 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
     if (!atomState) {
       atomState = { d: new Map(), p: new Set(), n: 0 }
       setAtomState(atom, atomState)
+      emitInit(atom, undefined, undefined)
       atomOnInit?.(atom, store)
     }
     return atomState
@@ -247,8 +395,45 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
   const changedAtoms = new Map<AnyAtom, AtomState>()
   const unmountCallbacks = new Set<() => void>()
   const mountCallbacks = new Set<() => void>()
+  const transactions: Transaction[] = []
+  const mountedAtoms = new Set<AnyAtom>()
+  // atoms being read, in order, to detect dependency cycles
+  let readingAtoms = new Set<AnyAtom>()
+  let flushDepth = 0
+
+  // Writes start with an empty read path, as atoms read by them
+  // are not dependencies of the atoms being read.
+  const withNewReadPath = <Result>(fn: () => Result): Result => {
+    const prevReadingAtoms = readingAtoms
+    readingAtoms = new Set()
+    try {
+      return fn()
+    } finally {
+      readingAtoms = prevReadingAtoms
+    }
+  }
+
+  const recordAtomState = (atom: AnyAtom, atomState: AtomState) => {
+    const snapshots = transactions[transactions.length - 1]?.[0]
+    if (snapshots && !snapshots.has(atom)) {
+      snapshots.set(atom, [
+        atomState,
+        'v' in atomState,
+        atomState.v,
+        'e' in atomState,
+        atomState.e,
+        atomState.n,
+        new Map(atomState.d),
+        changedAtoms.has(atom),
+      ])
+    }
+  }
 
   const flushCallbacks = () => {
+    if (transactions.length) {
+      // listeners are notified once the outermost transaction is committed
+      return
+    }
     const errors: unknown[] = []
     const call = (fn: () => void) => {
       try {
@@ -257,21 +442,38 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
         errors.push(e)
       }
     }
-    do {
-      ;(store as any)[INTERNAL_flushStoreHook]?.()
-      const callbacks = new Set<() => void>()
-      const add = callbacks.add.bind(callbacks)
-      changedAtoms.forEach((atomState) => atomState.m?.l.forEach(add))
-      changedAtoms.clear()
-      unmountCallbacks.forEach(add)
-      unmountCallbacks.clear()
-      mountCallbacks.forEach(add)
-      mountCallbacks.clear()
-      callbacks.forEach(call)
-      if (changedAtoms.size) {
-        recomputeInvalidatedAtoms()
-      }
-    } while (changedAtoms.size || unmountCallbacks.size || mountCallbacks.size)
+    let iterations = 0
+    ++flushDepth
+    try {
+      do {
+        if (flushDepth > MAX_FLUSH_COUNT || ++iterations > MAX_FLUSH_COUNT) {
+          const atoms = Array.from(changedAtoms.keys())
+          changedAtoms.clear()
+          unmountCallbacks.clear()
+          mountCallbacks.clear()
+          throw new AtomCycleError('Write loop detected', atoms)
+        }
+        emitFlush()
+        const callbacks = new Set<() => void>()
+        const add = callbacks.add.bind(callbacks)
+        changedAtoms.forEach((atomState) => atomState.m?.l.forEach(add))
+        changedAtoms.clear()
+        unmountCallbacks.forEach(add)
+        unmountCallbacks.clear()
+        mountCallbacks.forEach(add)
+        mountCallbacks.clear()
+        callbacks.forEach(call)
+        if (changedAtoms.size) {
+          recomputeInvalidatedAtoms()
+        }
+      } while (
+        changedAtoms.size ||
+        unmountCallbacks.size ||
+        mountCallbacks.size
+      )
+    } finally {
+      --flushDepth
+    }
     if (errors.length) {
       throw errors[0]
     }
@@ -282,6 +484,7 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
     atomState: AtomState,
     valueOrPromise: unknown,
   ) => {
+    recordAtomState(atom, atomState)
     const hasPrevValue = 'v' in atomState
     const prevValue = atomState.v
     const pendingPromise = isPendingPromise(atomState.v) ? atomState.v : null
@@ -291,19 +494,39 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
         addPendingPromiseToDependency(atom, valueOrPromise, ensureAtomState(a))
       }
       atomState.v = valueOrPromise
-    } else {
+    } else if (
+      // keep the previous value if equal, so that the epoch number is unchanged
+      !hasPrevValue ||
+      isPromiseLike(prevValue) ||
+      !atom.equals?.(prevValue, valueOrPromise)
+    ) {
       atomState.v = valueOrPromise
     }
     delete atomState.e
     if (!hasPrevValue || !Object.is(prevValue, atomState.v)) {
       ++atomState.n
       if (pendingPromise) {
-        cancelPromise(pendingPromise, valueOrPromise)
+        const cancel = () => cancelPromise(pendingPromise, valueOrPromise)
+        const transaction = transactions[transactions.length - 1]
+        if (transaction) {
+          transaction[1].push(cancel)
+        } else {
+          cancel()
+        }
       }
     }
   }
 
   const readAtomState = <Value>(atom: Atom<Value>): AtomState<Value> => {
+    readingAtoms.add(atom)
+    try {
+      return computeAtomState(atom)
+    } finally {
+      readingAtoms.delete(atom)
+    }
+  }
+
+  const computeAtomState = <Value>(atom: Atom<Value>): AtomState<Value> => {
     const atomState = ensureAtomState(atom)
     // See if we can skip recomputing this atom.
     if (isAtomStateInitialized(atomState)) {
@@ -318,15 +541,18 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
       if (
         Array.from(atomState.d).every(
           ([a, n]) =>
-            // Recursively, read the atom state of the dependency, and
-            // check if the atom epoch number is unchanged
-            readAtomState(a).n === n,
+            // A dependency being read is in a cycle, so recompute to detect it.
+            // Otherwise, recursively read the atom state of the dependency,
+            // and check if the atom epoch number is unchanged
+            !readingAtoms.has(a) && readAtomState(a).n === n,
         )
       ) {
         return atomState
       }
     }
     // Compute a new state for this atom.
+    recordAtomState(atom, atomState)
+    const prevValue = atomState.v
     atomState.d.clear()
     let isSync = true
     const mountDependenciesIfAsync = () => {
@@ -349,6 +575,16 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
         return returnAtomValue(aState)
       }
       // a !== atom
+      if (readingAtoms.has(a)) {
+        // Depend on it anyway, so that this atom is recomputed
+        // once the cycle is resolved.
+        addDependency(atom, atomState, a, ensureAtomState(a))
+        const path = Array.from(readingAtoms)
+        throw new AtomCycleError('Dependency cycle detected', [
+          ...path.slice(path.indexOf(a)),
+          a,
+        ])
+      }
       const aState = readAtomState(a)
       try {
         return returnAtomValue(aState)
@@ -395,11 +631,13 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
         valueOrPromise.onCancel?.(() => controller?.abort())
         valueOrPromise.then(mountDependenciesIfAsync, mountDependenciesIfAsync)
       }
+      emitRead(atom, prevValue, atomState.v)
       return atomState
     } catch (error) {
       delete atomState.v
       atomState.e = error
       ++atomState.n
+      emitRead(atom, prevValue, undefined)
       return atomState
     } finally {
       isSync = false
@@ -443,7 +681,7 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
 
   const recomputeInvalidatedAtoms = () => {
     // Step 1: traverse the dependency graph to build the topsorted atom list
-    // We don't bother to check for cycles, which simplifies the algorithm.
+    // Cycles are detected by readAtomState, so we don't check them here.
     // This is a topological sort via depth-first search, slightly modified from
     // what's described here for simplicity and performance reasons:
     // https://en.wikipedia.org/wiki/Topological_sorting#Depth-first_search
@@ -500,24 +738,41 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
         }
       }
       if (hasChangedDeps) {
+        const prevValue = aState.v
         readAtomState(a)
         mountDependencies(a, aState)
         if (prevEpochNumber !== aState.n) {
           changedAtoms.set(a, aState)
-          aState.u?.()
+          emitChange(a, prevValue, aState.v)
         }
       }
       invalidatedAtoms.delete(a)
     }
   }
 
+  const setAtomValue = (
+    atom: AnyAtom,
+    atomState: AtomState,
+    value: AnyValue,
+  ) => {
+    const prevEpochNumber = atomState.n
+    const prevValue = atomState.v
+    setAtomStateValueOrPromise(atom, atomState, value)
+    mountDependencies(atom, atomState)
+    if (prevEpochNumber !== atomState.n) {
+      changedAtoms.set(atom, atomState)
+      emitChange(atom, prevValue, atomState.v)
+      invalidateDependents(atomState)
+    }
+  }
+
   const writeAtomState = <Value, Args extends unknown[], Result>(
     atom: WritableAtom<Value, Args, Result>,
     ...args: Args
   ): Result => {
     let isSync = true
     const getter: Getter = <V>(a: Atom<V>) => returnAtomValue(readAtomState(a))
-    const setter: Setter = <V, As extends unknown[], R>(
+    const setAtom = <V, As extends unknown[], R>(
       a: WritableAtom<V, As, R>,
       ...args: As
     ) => {
@@ -528,15 +783,7 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
             // NOTE technically possible but restricted as it may cause bugs
             throw new Error('atom not writable')
           }
-          const prevEpochNumber = aState.n
-          const v = args[0] as V
-          setAtomStateValueOrPromise(a, aState, v)
-          mountDependencies(a, aState)
-          if (prevEpochNumber !== aState.n) {
-            changedAtoms.set(a, aState)
-            aState.u?.()
-            invalidateDependents(aState)
-          }
+          setAtomValue(a, aState, args[0])
           return undefined as R
         } else {
           return writeAtomState(a, ...args)
@@ -548,6 +795,11 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
         }
       }
     }
+    // transactions keep setting the atom itself without writing it again
+    const setter: Setter = Object.assign(setAtom, {
+      transaction: <R>(fn: (get: Getter, set: Setter) => R) =>
+        runTransaction(fn, getter, setter),
+    })
     try {
       return atomWrite(atom, getter, setter, ...args)
     } finally {
@@ -558,14 +810,15 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
   const writeAtom = <Value, Args extends unknown[], Result>(
     atom: WritableAtom<Value, Args, Result>,
     ...args: Args
-  ): Result => {
-    try {
-      return writeAtomState(atom, ...args)
-    } finally {
-      recomputeInvalidatedAtoms()
-      flushCallbacks()
-    }
-  }
+  ): Result =>
+    withNewReadPath(() => {
+      try {
+        return writeAtomState(atom, ...args)
+      } finally {
+        recomputeInvalidatedAtoms()
+        flushCallbacks()
+      }
+    })
 
   const mountDependencies = (atom: AnyAtom, atomState: AtomState) => {
     if (atomState.m && !isPendingPromise(atomState.v)) {
@@ -604,7 +857,8 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
         d: new Set(atomState.d.keys()),
         t: new Set(),
       }
-      atomState.h?.()
+      mountedAtoms.add(atom)
+      emitMount(atom, atomState.v, atomState.v)
       if (isActuallyWritableAtom(atom)) {
         const mounted = atomState.m
         const processOnMount = () => {
@@ -656,7 +910,8 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
         unmountCallbacks.add(onUnmount)
       }
       delete atomState.m
-      atomState.h?.()
+      mountedAtoms.delete(atom)
+      emitUnmount(atom, atomState.v, atomState.v)
       // unmount dependencies
       for (const a of atomState.d.keys()) {
         const aMounted = unmountAtom(a, ensureAtomState(a))
@@ -680,6 +935,97 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
     }
   }
 
+  const rollbackTransaction = ([snapshots]: Transaction) => {
+    for (const [a, snapshot] of snapshots) {
+      const [aState, hasValue, value, hasError, error, n, d] = snapshot
+      const isChanged = aState.n !== n
+      const prevValue = aState.v
+      if (hasValue) {
+        aState.v = value
+      } else {
+        delete aState.v
+      }
+      if (hasError) {
+        aState.e = error
+      } else {
+        delete aState.e
+      }
+      aState.n = n
+      aState.d.clear()
+      d.forEach((epochNumber, dep) => aState.d.set(dep, epochNumber))
+      mountDependencies(a, aState)
+      if (isPendingPromise(prevValue) && prevValue !== aState.v) {
+        // the promise created in the transaction is discarded
+        cancelPromise(prevValue, aState.v)
+      }
+      if (isChanged) {
+        emitChange(a, prevValue, aState.v)
+      }
+    }
+    // Dependents invalidated during the transaction are revalidated
+    // against the restored epoch numbers, so they keep their cache.
+    recomputeInvalidatedAtoms()
+    for (const [a, snapshot] of snapshots) {
+      if (!snapshot[7]) {
+        changedAtoms.delete(a)
+      }
+    }
+  }
+
+  const runTransaction = <Result>(
+    fn: (get: Getter, set: Setter) => Result,
+    get: Getter = readAtom,
+    set: Setter = transactionSetter,
+  ): Result => {
+    const transaction: Transaction = [new Map(), []]
+    transactions.push(transaction)
+    try {
+      const result = fn(get, set)
+      transactions.pop()
+      const parentTransaction = transactions[transactions.length - 1]
+      if (parentTransaction) {
+        for (const [a, snapshot] of transaction[0]) {
+          if (!parentTransaction[0].has(a)) {
+            parentTransaction[0].set(a, snapshot)
+          }
+        }
+        parentTransaction[1].push(...transaction[1])
+      } else {
+        transaction[1].forEach((cancel) => cancel())
+      }
+      return result
+    } catch (error) {
+      transactions.pop()
+      rollbackTransaction(transaction)
+      throw error
+    } finally {
+      if (!transactions.length) {
+        recomputeInvalidatedAtoms()
+        flushCallbacks()
+      }
+    }
+  }
+
+  const restoreAtoms = (values: Iterable<readonly [AnyAtom, AnyValue]>) =>
+    runTransaction(() => {
+      for (const [atom, value] of values) {
+        if (hasInitialValue(atom)) {
+          setAtomValue(atom, ensureAtomState(atom), value)
+        }
+      }
+    })
+
+  const transactionSetter: Setter = Object.assign(
+    <Value, Args extends unknown[], Result>(
+      atom: WritableAtom<Value, Args, Result>,
+      ...args: Args
+    ) => writeAtom(atom, ...args),
+    {
+      transaction: <R>(fn: (get: Getter, set: Setter) => R) =>
+        runTransaction(fn),
+    },
+  )
+
   const unstable_derive: Store['unstable_derive'] = (fn) =>
     buildStore(...fn(...storeArgs))
 
@@ -687,39 +1033,36 @@ const buildStore = (...storeArgs: StoreArgs): Store => {
     get: readAtom,
     set: writeAtom,
     sub: subscribeAtom,
+    transaction: <R>(fn: (get: Getter, set: Setter) => R) => runTransaction(fn),
+    restore: restoreAtoms,
+    hooks: {
+      init: initHook,
+      read: readHook,
+      change: changeHook,
+      mount: mountHook,
+      unmount: unmountHook,
+      flush: flushHook,
+    },
     unstable_derive,
   }
+  storeInternalsMap.set(store, [getAtomState, mountedAtoms])
   return store
 }
 
 const deriveDevStoreRev4 = (store: Store): Store & DevStoreRev4 => {
   const debugMountedAtoms = new Set<AnyAtom>()
   let savedGetAtomState: StoreArgs[0]
-  let inRestoreAtom = 0
   const derivedStore = store.unstable_derive((...storeArgs: [...StoreArgs]) => {
-    const [getAtomState, setAtomState, , atomWrite] = storeArgs
+    const [getAtomState] = storeArgs
     savedGetAtomState = getAtomState
-    storeArgs[1] = function devSetAtomState(atom, atomState) {
-      setAtomState(atom, atomState)
-      const originalMounted = atomState.h
-      atomState.h = () => {
-        originalMounted?.()
-        if (atomState.m) {
-          debugMountedAtoms.add(atom)
-        } else {
-          debugMountedAtoms.delete(atom)
-        }
-      }
-    }
-    storeArgs[3] = function devAtomWrite(atom, getter, setter, ...args) {
-      if (inRestoreAtom) {
-        return setter(atom, ...args)
-      }
-      return atomWrite(atom, getter, setter, ...args)
-    }
     return storeArgs
   })
-  const savedStoreSet = derivedStore.set
+  derivedStore.hooks.mount.add(undefined, ({ atom }) => {
+    debugMountedAtoms.add(atom)
+  })
+  derivedStore.hooks.unmount.add(undefined, ({ atom }) => {
+    debugMountedAtoms.delete(atom)
+  })
   const devStore: DevStoreRev4 = {
     // store dev methods (these are tentative and subject to change without notice)
     dev4_get_internal_weak_map: () => ({
@@ -733,46 +1076,494 @@ const deriveDevStoreRev4 = (store: Store): Store & DevStoreRev4 => {
       },
     }),
     dev4_get_mounted_atoms: () => debugMountedAtoms,
-    dev4_restore_atoms: (values) => {
-      const restoreAtom: WritableAtom<null, [], void> = {
-        read: () => null,
-        write: (_get, set) => {
-          ++inRestoreAtom
-          try {
-            for (const [atom, value] of values) {
-              if (hasInitialValue(atom)) {
-                set(atom as never, value)
-              }
-            }
-          } finally {
-            --inRestoreAtom
-          }
-        },
-      }
-      savedStoreSet(restoreAtom)
-    },
+    dev4_restore_atoms: (values) => derivedStore.restore(values),
   }
   return Object.assign(derivedStore, devStore)
 }
 
 type PrdOrDevStore = Store | (Store & DevStoreRev4)
 
-export const createStore = (): PrdOrDevStore => {
-  const atomStateMap = new WeakMap()
-  const store = buildStore(
+/**
+ * Policy to evict states of unmounted atoms from the store.
+ * Only states that can be recomputed are evicted:
+ * values of derived atoms, and primitive atoms that still have the initial value.
+ * Mounted atoms, atoms with pending promises, atoms with `unstable_onInit`
+ * and atoms with `unstable_noEvict` are never evicted.
+ */
+type EvictionPolicy = {
+  /** Maximum number of unmounted atom states, evicting least recently used ones. */
+  maxSize?: number
+  /** Milliseconds since an unmounted atom was last used. */
+  ttl?: number
+  /** Milliseconds since an atom was unmounted. */
+  unmountDelay?: number
+}
+
+/**
+ * When to notify atom listeners after a change.
+ * Atom values are always recomputed right away.
+ */
+type Scheduler =
+  | 'sync'
+  | 'microtask'
+  | 'animationFrame'
+  | ((flush: () => void) => void)
+
+type StoreOptions = {
+  evict?: EvictionPolicy
+  scheduler?: Scheduler
+}
+
+const getScheduleFunction = (
+  scheduler: Exclude<Scheduler, 'sync'>,
+): ((flush: () => void) => void) => {
+  if (scheduler === 'microtask') {
+    return (flush) => queueMicrotask(flush)
+  }
+  if (scheduler === 'animationFrame') {
+    return (flush) =>
+      typeof requestAnimationFrame === 'function'
+        ? requestAnimationFrame(flush)
+        : setTimeout(flush)
+  }
+  return scheduler
+}
+
+// Defers and coalesces listener calls, so that a listener is called
+// at most once per scheduled flush.
+const withScheduler = <S extends Store>(
+  store: S,
+  scheduler: Exclude<Scheduler, 'sync'>,
+): S => {
+  const schedule = getScheduleFunction(scheduler)
+  const pendingListeners = new Set<() => void>()
+  const flushListeners = () => {
+    const errors: unknown[] = []
+    const listeners = Array.from(pendingListeners)
+    pendingListeners.clear()
+    for (const listener of listeners) {
+      try {
+        listener()
+      } catch (e) {
+        errors.push(e)
+      }
+    }
+    if (errors.length) {
+      throw errors[0]
+    }
+  }
+  const subscribeAtom: Store['sub'] = (atom, listener) => {
+    // a function per subscription, so that it can be canceled alone
+    const callListener = () => listener()
+    const unsub = store.sub(atom, () => {
+      if (!pendingListeners.size) {
+        schedule(flushListeners)
+      }
+      pendingListeners.add(callListener)
+    })
+    return () => {
+      pendingListeners.delete(callListener)
+      unsub()
+    }
+  }
+  const scheduledStore = { ...store, sub: subscribeAtom }
+  storeInternalsMap.set(scheduledStore, storeInternalsMap.get(store)!)
+  return scheduledStore
+}
+
+// Number of stores that have a state of an atom with `unstable_onEvict`,
+// counting states of scoped copies for the original atom.
+const evictableAtomStateCounts = new WeakMap<AnyAtom, number>()
+
+const getOriginalAtom = (atom: AnyAtom) => {
+  while (originalAtoms.has(atom)) {
+    atom = originalAtoms.get(atom)!
+  }
+  return atom
+}
+
+const countAtomState = (atom: AnyAtom, delta: 1 | -1) => {
+  atom = getOriginalAtom(atom)
+  const count = (evictableAtomStateCounts.get(atom) || 0) + delta
+  evictableAtomStateCounts.set(atom, count)
+  return count
+}
+
+const createEvictableAtomStateMap = (policy: EvictionPolicy) => {
+  const { maxSize, ttl, unmountDelay } = policy
+  const atomStateMap = new WeakMap<AnyAtom, AtomState>()
+  // Epoch numbers of evicted atoms, so that dependents don't see
+  // a recreated atom state as unchanged.
+  const evictedEpochs = new WeakMap<AnyAtom, EpochNumber>()
+  // Unmounted atoms in least recently used order,
+  // with the last used time and whether the atom has been unmounted.
+  // Only atoms that the policy can evict are tracked.
+  const unmountedAtoms = new Map<AnyAtom, [time: number, unmounted: boolean]>()
+  // Atoms that are used without being mounted are tracked only with these
+  const isUsageTracked = maxSize !== undefined || ttl !== undefined
+  let store: Store | undefined
+  let isSweepScheduled = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let timerExpiry = Infinity
+
+  const getDelay = (unmounted: boolean) =>
+    unmounted &&
+    unmountDelay !== undefined &&
+    (ttl === undefined || unmountDelay < ttl)
+      ? unmountDelay
+      : ttl
+
+  const scheduleTimer = (expiry: number, now: number) => {
+    if (expiry < timerExpiry) {
+      clearTimeout(timer)
+      timerExpiry = expiry
+      timer = setTimeout(sweep, expiry - now)
+    }
+  }
+
+  const isEvictable = (atom: AnyAtom, atomState: AtomState) => {
+    const originalAtom = getOriginalAtom(atom)
+    return (
+      !atomState.m &&
+      !originalAtom.unstable_noEvict &&
+      !originalAtom.unstable_onInit &&
+      (!hasInitialValue(atom) || Object.is(atomState.v, atom.init))
+    )
+  }
+
+  // Returns true if the atom is no longer tracked.
+  const evict = (atom: AnyAtom): boolean => {
+    const atomState = atomStateMap.get(atom)
+    if (
+      atomState &&
+      !atomState.m &&
+      (atomState.p.size || isPendingPromise(atomState.v))
+    ) {
+      return false
+    }
+    unmountedAtoms.delete(atom)
+    if (atomState && isEvictable(atom, atomState)) {
+      atomStateMap.delete(atom)
+      evictedEpochs.set(atom, atomState.n)
+      if (atom.unstable_onEvict && !countAtomState(atom, -1)) {
+        atom.unstable_onEvict(store!)
+      }
+    }
+    return true
+  }
+
+  const sweep = () => {
+    isSweepScheduled = false
+    clearTimeout(timer)
+    timer = undefined
+    timerExpiry = Infinity
+    const now = Date.now()
+    let nextExpiry = Infinity
+    let size = unmountedAtoms.size
+    for (const [atom, [time, unmounted]] of Array.from(unmountedAtoms)) {
+      const delay = getDelay(unmounted)
+      const isOverflowed = maxSize !== undefined && size > maxSize
+      const isExpired = delay !== undefined && now - time >= delay
+      if ((isOverflowed || isExpired) && evict(atom)) {
+        --size
+      } else if (delay !== undefined) {
+        nextExpiry = Math.min(nextExpiry, time + delay)
+      }
+    }
+    if (nextExpiry !== Infinity) {
+      scheduleTimer(nextExpiry, now)
+    }
+  }
+
+  const touch = (atom: AnyAtom, unmounted: boolean) => {
+    unmounted ||= !!unmountedAtoms.get(atom)?.[1]
+    const delay = getDelay(unmounted)
+    // the time is only needed for delayed eviction
+    const now = delay === undefined ? 0 : Date.now()
+    unmountedAtoms.delete(atom)
+    unmountedAtoms.set(atom, [now, unmounted])
+    if (maxSize !== undefined && unmountedAtoms.size > maxSize) {
+      if (!isSweepScheduled) {
+        isSweepScheduled = true
+        // evict after the current store operation
+        Promise.resolve().then(sweep)
+      }
+    } else if (delay !== undefined) {
+      scheduleTimer(now + delay, now)
+    }
+  }
+
+  return {
+    get: (atom: AnyAtom) => {
+      const atomState = atomStateMap.get(atom)
+      if (isUsageTracked && !atomState?.m) {
+        touch(atom, false)
+      }
+      return atomState
+    },
+    set(atom: AnyAtom, atomState: AtomState) {
+      const evictedEpoch = evictedEpochs.get(atom)
+      if (evictedEpoch !== undefined) {
+        atomState.n = evictedEpoch
+      }
+      atomStateMap.set(atom, atomState)
+      return this
+    },
+    attach: (s: Store) => {
+      store = s
+      s.hooks.mount.add(undefined, ({ atom }) => {
+        unmountedAtoms.delete(atom)
+      })
+      s.hooks.unmount.add(undefined, ({ atom }) => {
+        touch(atom, true)
+      })
+    },
+  }
+}
+
+export const createStore = (options?: StoreOptions): PrdOrDevStore => {
+  const evictableAtomStateMap =
+    options?.evict && createEvictableAtomStateMap(options.evict)
+  const atomStateMap = evictableAtomStateMap || new WeakMap()
+  let store: PrdOrDevStore = buildStore(
     (atom) => atomStateMap.get(atom),
-    (atom, atomState) => atomStateMap.set(atom, atomState).get(atom),
+    (atom, atomState) => {
+      if (atom.unstable_onEvict) {
+        countAtomState(atom, 1)
+      }
+      return atomStateMap.set(atom, atomState).get(atom)
+    },
     (atom, ...params) => atom.read(...params),
     (atom, ...params) => atom.write(...params),
     (atom, ...params) => atom.unstable_onInit?.(...params),
     (atom, ...params) => atom.onMount?.(...params),
   )
   if (import.meta.env?.MODE !== 'production') {
-    return deriveDevStoreRev4(store)
+    store = deriveDevStoreRev4(store)
+  }
+  evictableAtomStateMap?.attach(store)
+  if (options?.scheduler && options.scheduler !== 'sync') {
+    store = withScheduler(store, options.scheduler)
   }
   return store
 }
 
+// atoms created by scoped stores, mapped to the atoms they stand for
+const originalAtoms = new WeakMap<AnyAtom, AnyAtom>()
+
+// for creating scoped stores of scoped stores
+type Scope = readonly [
+  baseStore: Store,
+  resolveAtom: (atom: AnyAtom, isWrite?: boolean) => AnyAtom,
+  getStateAtom: (atom: AnyAtom) => AnyAtom,
+]
+
+const scopeMap = new WeakMap<Store, Scope>()
+
+/**
+ * Creates a store that keeps its own state of the given atoms,
+ * and shares the state of other atoms with the parent store.
+ * Atoms depending on scoped atoms are recomputed in the scoped store,
+ * so that they read the scoped atoms.
+ * Derived atoms with `unstable_onInit`, like effects, are always recomputed.
+ */
+export const createScopedStore = (
+  parentStore: Store,
+  atoms: Iterable<AnyAtom>,
+): Store => {
+  const scopedAtoms = new Set(atoms)
+  // scoped stores of scoped stores keep the state in the same base store
+  const [baseStore, resolveParentAtom, getParentStateAtom]: Scope =
+    scopeMap.get(parentStore) || [parentStore, (a) => a, (a) => a]
+  const getDependencies = (a: AnyAtom): AnyAtom[] =>
+    Array.from(storeInternalsMap.get(baseStore)?.[0](a)?.d.keys() || [])
+  const copies = new WeakMap<AnyAtom, AnyWritableAtom>()
+  const statusAtoms = new WeakMap<AnyAtom, Atom<boolean>>()
+  const resolvedAtoms = new WeakMap<
+    AnyAtom,
+    readonly [readAtom: AnyAtom, writeAtom: AnyAtom]
+  >()
+  const isAlwaysCopied = (a: AnyAtom) =>
+    scopedAtoms.has(a) || (!hasInitialValue(a) && !!a.unstable_onInit)
+  const resolveGetter =
+    (get: Getter, resolve = resolveAtom): Getter =>
+    (a) =>
+      get(resolve(a))
+  const resolveSetter = (set: Setter, resolve = resolveAtom): Setter => {
+    const resolvedSet: Setter = (a, ...args) => set(resolve(a, true), ...args)
+    const { transaction } = set
+    if (transaction) {
+      resolvedSet.transaction = (fn) =>
+        transaction((get, set) =>
+          fn(resolveGetter(get, resolve), resolveSetter(set, resolve)),
+        )
+    }
+    return resolvedSet
+  }
+  // A copy keeps its own state in the base store,
+  // and resolves atoms used in its read and write functions.
+  const getCopy = (a: AnyAtom) => {
+    let copy = copies.get(a)
+    if (!copy) {
+      const self: AnyWritableAtom = Object.create(a)
+      const resolve = <A extends AnyAtom>(x: A, isWrite?: boolean) =>
+        (x === a ? self : resolveAtom(x, isWrite)) as A
+      self.unstable_is = (x) => x === self
+      self.read = (get, options) =>
+        a.read.call(self, resolveGetter(get, resolve), options as never)
+      if (isActuallyWritableAtom(a)) {
+        self.write = (get, set, ...args) =>
+          a.write.call(
+            self,
+            resolveGetter(get, resolve),
+            resolveSetter(set, resolve),
+            ...args,
+          )
+      }
+      self.unstable_onInit = () => a.unstable_onInit?.call(self, scopedStore)
+      originalAtoms.set(self, a)
+      copies.set(a, (copy = self))
+    }
+    return copy
+  }
+  // A status atom tells if `a` depends on scoped atoms and is copied.
+  // It finds the dependencies of `a` in the parent store, or of the copy.
+  const getStatusAtom = (a: AnyAtom) => {
+    let statusAtom = statusAtoms.get(a)
+    if (!statusAtom) {
+      const self: Atom<boolean> & { init?: undefined } = atom((get) => {
+        const isCopied = get(self) as boolean | undefined
+        const target = isCopied ? getCopy(a) : getParentStateAtom(a)
+        try {
+          // read without mounting, as the atom may not be used in the parent
+          baseStore.get(target)
+        } catch {
+          // errors are thrown when the atom is read
+        }
+        const hasScopedDependency = getDependencies(target).some((d) => {
+          const x = originalAtoms.get(d) || d
+          return isAlwaysCopied(x) || get(getStatusAtom(x))
+        })
+        try {
+          get(hasScopedDependency ? getCopy(a) : resolveParentAtom(a))
+        } catch {
+          // errors are thrown when the atom is read
+        }
+        return hasScopedDependency
+      })
+      // HACK to read status atom before initialization
+      self.init = undefined
+      if (import.meta.env?.MODE !== 'production') {
+        self.debugPrivate = true
+      }
+      statusAtoms.set(a, (statusAtom = self))
+    }
+    return statusAtom
+  }
+  // the atom that has the state of `a` in the base store
+  const getStateAtom = (a: AnyAtom): AnyAtom =>
+    isAlwaysCopied(a) || baseStore.get(getStatusAtom(a))
+      ? getCopy(a)
+      : getParentStateAtom(a)
+  // A proxy reads the copy or the atom in the parent store.
+  const createProxy = (a: AnyAtom) => {
+    const statusAtom = getStatusAtom(a)
+    const proxy = atom((get) =>
+      get(statusAtom) ? get(getCopy(a)) : get(resolveParentAtom(a)),
+    )
+    if (import.meta.env?.MODE !== 'production') {
+      proxy.debugPrivate = true
+    }
+    originalAtoms.set(proxy, a)
+    return proxy
+  }
+  // A writer calls the write function of `a` with resolved atoms,
+  // and `a` setting itself sets the state of `a` in the base store.
+  const createWriter = (a: AnyWritableAtom) => {
+    const writer: AnyWritableAtom = Object.create(a)
+    writer.unstable_is = (x) => x === writer || x === getStateAtom(a)
+    writer.write = (get, set, ...args) => {
+      const resolve = <A extends AnyAtom>(x: A, isWrite?: boolean) =>
+        ((x as AnyAtom) === a && isWrite
+          ? getStateAtom(a)
+          : resolveAtom(x, isWrite)) as A
+      return a.write.call(
+        a,
+        resolveGetter(get),
+        resolveSetter(set, resolve),
+        ...args,
+      )
+    }
+    originalAtoms.set(writer, a)
+    return writer
+  }
+  const resolveAtom = <A extends AnyAtom>(a: A, isWrite?: boolean): A => {
+    if (originalAtoms.has(a)) {
+      // already resolved
+      return a
+    }
+    if (isAlwaysCopied(a)) {
+      return getCopy(a) as AnyAtom as A
+    }
+    let resolved = resolvedAtoms.get(a)
+    if (!resolved) {
+      const proxy = createProxy(a)
+      resolved = [proxy, isActuallyWritableAtom(a) ? createWriter(a) : proxy]
+      resolvedAtoms.set(a, resolved)
+    }
+    return resolved[isWrite ? 1 : 0] as A
+  }
+  // Listeners are added for the copy and for the atom in the parent store,
+  // as the atom may be copied later.
+  const resolveHook = (hook: AtomHook, parentHook: AtomHook): AtomHook => ({
+    add: (a, listener) => {
+      if (!a) {
+        return hook.add(a, listener)
+      }
+      const unlisten = hook.add(getCopy(a), listener)
+      if (isAlwaysCopied(a)) {
+        return unlisten
+      }
+      const unlistenParent = parentHook.add(a, listener)
+      return () => {
+        unlisten()
+        unlistenParent()
+      }
+    },
+  })
+  const { hooks } = baseStore
+  const parentHooks = parentStore.hooks
+  const scopedStore: Store = {
+    get: (a) => baseStore.get(resolveAtom(a)),
+    set: (a, ...args) => baseStore.set(resolveAtom(a, true), ...args),
+    sub: (a, listener) => baseStore.sub(resolveAtom(a), listener),
+    transaction: (fn) =>
+      baseStore.transaction((get, set) =>
+        fn(resolveGetter(get), resolveSetter(set)),
+      ),
+    restore: (values) =>
+      baseStore.restore(
+        Array.from(values, ([a, value]) => [getStateAtom(a), value] as const),
+      ),
+    hooks: {
+      init: resolveHook(hooks.init, parentHooks.init),
+      read: resolveHook(hooks.read, parentHooks.read),
+      change: resolveHook(hooks.change, parentHooks.change),
+      mount: resolveHook(hooks.mount, parentHooks.mount),
+      unmount: resolveHook(hooks.unmount, parentHooks.unmount),
+      flush: hooks.flush,
+    },
+    unstable_derive: (fn) =>
+      createScopedStore(parentStore.unstable_derive(fn), scopedAtoms),
+  }
+  scopeMap.set(scopedStore, [baseStore, resolveAtom, getStateAtom])
+  const storeInternals = storeInternalsMap.get(baseStore)
+  if (storeInternals) {
+    storeInternalsMap.set(scopedStore, storeInternals)
+  }
+  return scopedStore
+}
+
 let defaultStore: PrdOrDevStore | undefined
 
 export const getDefaultStore = (): PrdOrDevStore => {
@@ -789,3 +1580,79 @@ export const getDefaultStore = (): PrdOrDevStore => {
   }
   return defaultStore
 }
+
+//
+// Store Inspection
+//
+
+type StoreGraphNode = {
+  readonly atom: AnyAtom
+  /** `String(atom)`, which is unique unless atom keys are duplicated */
+  readonly id: string
+  readonly label: string
+  readonly value?: AnyValue
+  readonly error?: AnyError
+  readonly epoch: EpochNumber
+  /** Ids of atoms that the atom depends on */
+  readonly dependencies: string[]
+  /** Ids of mounted atoms that depend on the atom */
+  readonly dependents: string[]
+  /** Number of listeners subscribed to the atom */
+  readonly listeners: number
+}
+
+type StoreGraph = {
+  readonly nodes: StoreGraphNode[]
+  /** Returns the nodes without atom configs */
+  toJSON: () => { nodes: Omit<StoreGraphNode, 'atom'>[] }
+  /** Returns the graph in Graphviz DOT format */
+  toDOT: () => string
+}
+
+const quoteDOT = (str: string) => JSON.stringify(str)
+
+/**
+ * Returns the graph of atoms mounted in the store.
+ */
+export const inspectStore = (store: Store): StoreGraph => {
+  const storeInternals = storeInternalsMap.get(store)
+  if (!storeInternals) {
+    throw new Error('Store is not created by createStore')
+  }
+  const [getAtomState, mountedAtoms] = storeInternals
+  const nodes: StoreGraphNode[] = []
+  for (const atom of mountedAtoms) {
+    const atomState = getAtomState(atom)
+    if (!atomState?.m) {
+      continue
+    }
+    nodes.push({
+      atom,
+      id: String(atom),
+      label: atom.debugLabel || String(atom),
+      ...('v' in atomState && { value: atomState.v }),
+      ...('e' in atomState && { error: atomState.e }),
+      epoch: atomState.n,
+      dependencies: Array.from(atomState.d.keys(), String),
+      dependents: Array.from(atomState.m.t, String),
+      listeners: atomState.m.l.size,
+    })
+  }
+  return {
+    nodes,
+    toJSON: () => ({ nodes: nodes.map(({ atom: _atom, ...node }) => node) }),
+    toDOT: () => {
+      const lines = ['digraph store {']
+      for (const node of nodes) {
+        lines.push(`  ${quoteDOT(node.id)} [label=${quoteDOT(node.label)}];`)
+      }
+      for (const node of nodes) {
+        for (const dependency of node.dependencies) {
+          lines.push(`  ${quoteDOT(dependency)} -> ${quoteDOT(node.id)};`)
+        }
+      }
+      lines.push('}')
+      return lines.join('\n')
+    },
+  }
+}
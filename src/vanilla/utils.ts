@@ -1,18 +1,32 @@
 export { RESET } from './utils/constants.ts'
 export { atomWithReset } from './utils/atomWithReset.ts'
 export { atomWithReducer } from './utils/atomWithReducer.ts'
-export { atomFamily } from './utils/atomFamily.ts'
+export { atomFamily, stableHash } from './utils/atomFamily.ts'
+export { familyValuesAtom, resetFamily } from './utils/familyValues.ts'
 export { selectAtom } from './utils/selectAtom.ts'
 export { freezeAtom, freezeAtomCreator } from './utils/freezeAtom.ts'
 export { splitAtom } from './utils/splitAtom.ts'
+export { splitRecordAtom } from './utils/splitRecordAtom.ts'
 export { atomWithDefault } from './utils/atomWithDefault.ts'
 export {
   atomWithStorage,
   createJSONStorage,
+  flushStorage,
   withStorageValidator as unstable_withStorageValidator,
 } from './utils/atomWithStorage.ts'
+export { createIDBStorage } from './utils/createIDBStorage.ts'
+export { createSearchParamsStorage } from './utils/createSearchParamsStorage.ts'
+export { atomWithBroadcast } from './utils/atomWithBroadcast.ts'
 export { atomWithObservable } from './utils/atomWithObservable.ts'
+export { atomWithAsyncIterable } from './utils/atomWithAsyncIterable.ts'
 export { loadable } from './utils/loadable.ts'
 export { unwrap } from './utils/unwrap.ts'
 export { atomWithRefresh } from './utils/atomWithRefresh.ts'
+export { atomWithAsync } from './utils/atomWithAsync.ts'
 export { atomWithLazy } from './utils/atomWithLazy.ts'
+export { snapshotStore, restoreStore } from './utils/snapshotStore.ts'
+export { atomEffect } from './utils/atomEffect.ts'
+export {
+  atomWithHistory,
+  atomWithGroupedHistory,
+} from './utils/atomWithHistory.ts'
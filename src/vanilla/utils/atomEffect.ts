@@ -0,0 +1,110 @@
+import { atom } from '../../vanilla.ts'
+import type { Atom, Getter, Setter } from '../../vanilla.ts'
+
+type AnyAtom = Atom<unknown>
+
+type Cleanup = () => void
+
+type Effect = (get: Getter, set: Setter) => Cleanup | void
+
+type Ref = {
+  get?: Getter
+  inProgress: number
+  epoch: number
+  cleanup?: Cleanup | undefined
+  mount?: () => void
+  unmount?: () => void
+}
+
+/**
+ * Creates an atom that runs `effect` while it is mounted.
+ * The effect re-runs synchronously after any write that changes the atoms
+ * it has read with `get`, and its cleanup runs before each re-run and on unmount.
+ * Setting atoms in the effect does not re-run it.
+ */
+export function atomEffect(effect: Effect): Atom<void> {
+  const refAtom = atom<Ref>(() => ({ inProgress: 0, epoch: 0 }))
+  refAtom.unstable_noEvict = true
+  const refreshAtom = atom(0)
+  const internalAtom = atom(
+    (get) => {
+      get(refreshAtom)
+      const ref = get(refAtom)
+      if (ref.inProgress) {
+        return ref.epoch
+      }
+      ref.get = get
+      return ++ref.epoch
+    },
+    (get, _set, action: 'mount' | 'unmount') => {
+      get(refAtom)[action]!()
+    },
+  )
+  internalAtom.onMount = (setAtom) => {
+    setAtom('mount')
+    return () => setAtom('unmount')
+  }
+  internalAtom.unstable_onInit = (store) => {
+    const ref = store.get(refAtom)
+    const runEffect = () => {
+      const deps = new Set<AnyAtom>()
+      try {
+        ref.cleanup?.()
+        ref.cleanup =
+          effect(
+            (a) => {
+              deps.add(a)
+              return store.get(a)
+            },
+            (a, ...args) => {
+              try {
+                ++ref.inProgress
+                return store.set(a, ...args)
+              } finally {
+                --ref.inProgress
+              }
+            },
+          ) || undefined
+      } finally {
+        // track dependencies of the effect in the internal atom
+        deps.forEach(ref.get!)
+      }
+    }
+    // effects run when the store flushes, after values are recomputed
+    let isPending = false
+    // store listeners are only added while the effect is mounted,
+    // so that the store does not keep unused effects
+    let unlisten: (() => void) | undefined
+    ref.mount = () => {
+      const unlistenChange = store.hooks.change.add(internalAtom, () => {
+        isPending = true
+      })
+      const unlistenFlush = store.hooks.flush.add(() => {
+        if (isPending) {
+          isPending = false
+          runEffect()
+        }
+      })
+      unlisten = () => {
+        unlistenChange()
+        unlistenFlush()
+      }
+      store.set(refreshAtom, (v) => v + 1)
+    }
+    ref.unmount = () => {
+      unlisten?.()
+      unlisten = undefined
+      isPending = false
+      ref.cleanup?.()
+      delete ref.cleanup
+    }
+  }
+  if (import.meta.env?.MODE !== 'production') {
+    refAtom.debugPrivate = true
+    refreshAtom.debugPrivate = true
+    internalAtom.debugPrivate = true
+  }
+  return atom((get) => {
+    get(internalAtom)
+  })
+}
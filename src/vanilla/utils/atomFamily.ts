@@ -24,6 +24,43 @@ export interface AtomFamily<Param, AtomType> {
   unstable_listen(callback: Callback<Param, AtomType>): Cleanup
 }
 
+type AtomFamilyOptions<Param> = {
+  /**
+   * Returns a key to look up atoms by, instead of comparing params.
+   * Params with the same key share an atom.
+   */
+  key?: (param: Param) => string | number
+  /** Removes the least recently used atoms to keep this many atoms */
+  maxSize?: number
+  /** Removes atoms not used for this many milliseconds */
+  ttl?: number
+  /** Removes atoms once they are unmounted in all stores that have mounted them */
+  evictOnUnmount?: boolean
+}
+
+const isPlainObject = (x: unknown): x is Record<string, unknown> =>
+  typeof x === 'object' &&
+  x !== null &&
+  (Object.getPrototypeOf(x) === Object.prototype ||
+    Object.getPrototypeOf(x) === null)
+
+/**
+ * Returns a string that is the same for structurally equal
+ * JSON-serializable values, regardless of the order of object keys.
+ */
+export function stableHash(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (!isPlainObject(v)) {
+      return v
+    }
+    const sorted: Record<string, unknown> = {}
+    for (const k of Object.keys(v).sort()) {
+      sorted[k] = v[k]
+    }
+    return sorted
+  })
+}
+
 export function atomFamily<Param, AtomType extends Atom<unknown>>(
   initializeAtom: (param: Param) => AtomType,
   areEqual?: (a: Param, b: Param) => boolean,
@@ -31,39 +68,180 @@ export function atomFamily<Param, AtomType extends Atom<unknown>>(
 
 export function atomFamily<Param, AtomType extends Atom<unknown>>(
   initializeAtom: (param: Param) => AtomType,
-  areEqual?: (a: Param, b: Param) => boolean,
+  options: AtomFamilyOptions<Param>,
+): AtomFamily<Param, AtomType>
+
+export function atomFamily<Param, AtomType extends Atom<unknown>>(
+  initializeAtom: (param: Param) => AtomType,
+  areEqualOrOptions?:
+    | ((a: Param, b: Param) => boolean)
+    | AtomFamilyOptions<Param>,
 ) {
+  type Item = [
+    atom: AtomType,
+    createdAt: CreatedAt,
+    param: Param,
+    usedAt: number,
+  ]
+  const areEqual =
+    typeof areEqualOrOptions === 'function' ? areEqualOrOptions : undefined
+  const options =
+    typeof areEqualOrOptions === 'object' ? areEqualOrOptions : undefined
+  const getKey = options?.key || ((param: Param) => param)
+  const maxSize = options?.maxSize
+  const ttl = options?.ttl
   let shouldRemove: ShouldRemove<Param> | null = null
-  const atoms: Map<Param, [AtomType, CreatedAt]> = new Map()
+  // keyed by params, or by keys with the `key` option,
+  // in order of use with `maxSize` or `ttl`
+  const atoms: Map<unknown, Item> = new Map()
+  const cleanups = new WeakMap<AtomType, () => void>()
+  // number of stores that have mounted the atom
+  const mountCounts = new WeakMap<AtomType, number>()
+  // params to remove once the atom is evicted,
+  // as atoms can be shared by params
+  const evictParams = new WeakMap<AtomType, Set<Param>>()
   const listeners = new Set<Callback<Param, AtomType>>()
-  const createAtom = (param: Param) => {
-    let item: [AtomType, CreatedAt] | undefined
+  const getEntry = (param: Param): [unknown, Item] | undefined => {
     if (areEqual === undefined) {
-      item = atoms.get(param)
-    } else {
-      // Custom comparator, iterate over all elements
-      for (const [key, value] of atoms) {
-        if (areEqual(key, param)) {
-          item = value
-          break
-        }
+      const key = getKey(param)
+      const item = atoms.get(key)
+      return item && [key, item]
+    }
+    // Custom comparator, iterate over all elements
+    for (const entry of atoms) {
+      if (areEqual(entry[1][2], param)) {
+        return entry
       }
     }
+  }
 
-    if (item !== undefined) {
-      if (shouldRemove?.(item[1], param)) {
+  const createAtom = (param: Param) => {
+    const entry = getEntry(param)
+    if (entry !== undefined) {
+      const [key, item] = entry
+      if (shouldRemove?.(item[1], item[2])) {
         createAtom.remove(param)
       } else {
+        if (maxSize !== undefined || ttl !== undefined) {
+          // move to the end as the most recently used
+          atoms.delete(key)
+          atoms.set(key, [item[0], item[1], item[2], Date.now()])
+        }
         return item[0]
       }
     }
 
     const newAtom = initializeAtom(param)
-    atoms.set(param, [newAtom, Date.now()])
+    removeOnEvict(param, newAtom)
+    if (options?.evictOnUnmount || maxSize !== undefined || ttl !== undefined) {
+      trackMounts(param, newAtom)
+    }
+    const now = Date.now()
+    atoms.set(getKey(param), [newAtom, now, param, now])
     notifyListeners('CREATE', param, newAtom)
+    removeUnused()
     return newAtom
   }
 
+  function deleteEntry(key: unknown, [atom, , param]: Item) {
+    atoms.delete(key)
+    cleanups.get(atom)?.()
+    notifyListeners('REMOVE', param, atom)
+  }
+
+  // Removes the least recently used atoms beyond `maxSize` or `ttl`.
+  // Mounted atoms are kept, and count as used when they are unmounted.
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+  function removeUnused() {
+    const now = Date.now()
+    for (const [key, item] of atoms) {
+      if (
+        !(maxSize !== undefined && atoms.size > maxSize) &&
+        !(ttl !== undefined && now - item[3] >= ttl)
+      ) {
+        break
+      }
+      if (!mountCounts.get(item[0])) {
+        deleteEntry(key, item)
+      }
+    }
+    const unmountedItem =
+      ttl !== undefined &&
+      timeoutId === undefined &&
+      Array.from(atoms.values()).find(([atom]) => !mountCounts.get(atom))
+    if (unmountedItem) {
+      const [, , , usedAt] = unmountedItem
+      timeoutId = setTimeout(
+        () => {
+          timeoutId = undefined
+          removeUnused()
+        },
+        usedAt + ttl - now,
+      )
+    }
+  }
+
+  // Removes the atom once it is evicted from all stores that have used it
+  function removeOnEvict(param: Param, newAtom: AtomType) {
+    if (!evictParams.has(newAtom)) {
+      const params = new Set<Param>()
+      evictParams.set(newAtom, params)
+      const { unstable_onEvict: onEvict } = newAtom
+      newAtom.unstable_onEvict = (store) => {
+        onEvict?.(store)
+        for (const p of params) {
+          if (getEntry(p)?.[1][0] === newAtom) {
+            createAtom.remove(p)
+          }
+        }
+        params.clear()
+      }
+    }
+    evictParams.get(newAtom)!.add(param)
+  }
+
+  // Counts the stores that have mounted the atom,
+  // to remove it or mark it as used once it is unmounted in all of them
+  function trackMounts(param: Param, newAtom: AtomType) {
+    const unlisten: (() => void)[] = []
+    const { unstable_onInit: onInit } = newAtom
+    newAtom.unstable_onInit = (store) => {
+      onInit?.(store)
+      unlisten.push(
+        store.hooks.mount.add(newAtom, () => {
+          mountCounts.set(newAtom, (mountCounts.get(newAtom) || 0) + 1)
+        }),
+        store.hooks.unmount.add(newAtom, () => {
+          const mountCount = mountCounts.get(newAtom)! - 1
+          mountCounts.set(newAtom, mountCount)
+          if (mountCount) {
+            return
+          }
+          if (!options?.evictOnUnmount) {
+            const entry = getEntry(param)
+            if (entry?.[1][0] === newAtom) {
+              // move to the end as the most recently used
+              atoms.delete(entry[0])
+              atoms.set(entry[0], [newAtom, entry[1][1], param, Date.now()])
+              removeUnused()
+            }
+            return
+          }
+          // wait in case it is mounted again right away
+          Promise.resolve().then(() => {
+            if (
+              !mountCounts.get(newAtom) &&
+              getEntry(param)?.[1][0] === newAtom
+            ) {
+              createAtom.remove(param)
+            }
+          })
+        }),
+      )
+    }
+    cleanups.set(newAtom, () => unlisten.forEach((fn) => fn()))
+  }
+
   function notifyListeners(
     type: 'CREATE' | 'REMOVE',
     param: Param,
@@ -81,32 +259,22 @@ export function atomFamily<Param, AtomType extends Atom<unknown>>(
     }
   }
 
-  createAtom.getParams = () => atoms.keys()
+  createAtom.getParams = () =>
+    Array.from(atoms.values(), ([, , param]) => param)
 
   createAtom.remove = (param: Param) => {
-    if (areEqual === undefined) {
-      if (!atoms.has(param)) return
-      const [atom] = atoms.get(param)!
-      atoms.delete(param)
-      notifyListeners('REMOVE', param, atom)
-    } else {
-      for (const [key, [atom]] of atoms) {
-        if (areEqual(key, param)) {
-          atoms.delete(key)
-          notifyListeners('REMOVE', key, atom)
-          break
-        }
-      }
+    const entry = getEntry(param)
+    if (entry) {
+      deleteEntry(...entry)
     }
   }
 
   createAtom.setShouldRemove = (fn: ShouldRemove<Param> | null) => {
     shouldRemove = fn
     if (!shouldRemove) return
-    for (const [key, [atom, createdAt]] of atoms) {
-      if (shouldRemove(createdAt, key)) {
-        atoms.delete(key)
-        notifyListeners('REMOVE', key, atom)
+    for (const [key, item] of atoms) {
+      if (shouldRemove(item[1], item[2])) {
+        deleteEntry(key, item)
       }
     }
   }
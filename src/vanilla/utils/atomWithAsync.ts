@@ -0,0 +1,201 @@
+import { atom } from '../../vanilla.ts'
+import type { Atom, Getter, WritableAtom } from '../../vanilla.ts'
+import { atomWithRefresh } from './atomWithRefresh.ts'
+
+type Read<Value> = (
+  get: Getter,
+  options: { readonly signal: AbortSignal },
+) => Promise<Value>
+
+type AsyncOptions = {
+  retry?: {
+    /** Number of retries after the first failure */
+    count: number
+    /** Returns milliseconds to wait before a retry, defaults to exponential backoff */
+    backoff?: (attempt: number) => number
+  }
+  /** Milliseconds to wait for each attempt before it fails */
+  timeout?: number
+  /** Milliseconds until the value is refetched on mount */
+  staleTime?: number
+  /** Milliseconds to refetch the value at, while mounted */
+  refetchInterval?: number
+}
+
+type Result<Value> =
+  | { readonly v: Value; readonly t: number }
+  | { readonly e: unknown }
+
+type State<Value> = {
+  // the latest promise
+  readonly p: Promise<Value>
+  // the result of the latest promise, or the previous value while fetching
+  readonly r?: Result<Value>
+  // is fetching
+  readonly f: boolean
+}
+
+type AsyncAtoms = {
+  isFetchingAtom: Atom<boolean>
+  lastUpdatedAtAtom: Atom<number | undefined>
+}
+
+const defaultBackoff = (attempt: number) => Math.min(1000 * 2 ** attempt, 30000)
+
+const delay = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const id = setTimeout(resolve, ms)
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(id)
+        reject(signal.reason)
+      },
+      { once: true },
+    )
+  })
+
+// Aborts the attempt if the signal is aborted or the timeout is reached
+const runAttempt = <Value>(
+  fetch: (signal: AbortSignal) => Promise<Value>,
+  signal: AbortSignal,
+  timeout: number | undefined,
+) =>
+  new Promise<Value>((resolve, reject) => {
+    const controller = new AbortController()
+    const abort = () => controller.abort(signal.reason)
+    signal.addEventListener('abort', abort)
+    const id =
+      timeout !== undefined
+        ? setTimeout(() => {
+            const error = new Error('Timeout')
+            reject(error)
+            controller.abort(error)
+          }, timeout)
+        : undefined
+    fetch(controller.signal)
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(id)
+        signal.removeEventListener('abort', abort)
+      })
+  })
+
+const fetchWithRetry = async <Value>(
+  fetch: (signal: AbortSignal) => Promise<Value>,
+  signal: AbortSignal,
+  options: AsyncOptions | undefined,
+): Promise<Value> => {
+  for (let attempt = 0; ; ++attempt) {
+    try {
+      return await runAttempt(fetch, signal, options?.timeout)
+    } catch (e) {
+      if (signal.aborted || attempt >= (options?.retry?.count ?? 0)) {
+        throw e
+      }
+      await delay((options?.retry?.backoff ?? defaultBackoff)(attempt), signal)
+    }
+  }
+}
+
+/**
+ * Creates an async atom that retries failed reads and refetches in the background.
+ * While refetching, it keeps the previous value instead of suspending.
+ * Writing to the atom without arguments refetches the value.
+ */
+export function atomWithAsync<Value>(
+  read: Read<Value>,
+  options?: AsyncOptions,
+): WritableAtom<Value | Promise<Value>, [], void> & AsyncAtoms {
+  const promiseAtom = atomWithRefresh((get, { signal }) =>
+    fetchWithRetry((signal) => read(get, { signal }), signal, options),
+  )
+  const resultCache = new WeakMap<Promise<Value>, Result<Value>>()
+  const refreshAtom = atom(0)
+  const stateAtom: WritableAtom<
+    State<Value>,
+    [action?: 'refetch' | 'revalidate'],
+    void
+  > & { init?: undefined } = atom(
+    (get, { setSelf }) => {
+      get(refreshAtom)
+      const prev = get(stateAtom) as State<Value> | undefined
+      const promise = get(promiseAtom)
+      if (promise !== prev?.p) {
+        promise.then(
+          (v) => {
+            resultCache.set(promise, { v, t: Date.now() })
+            setSelf()
+          },
+          (e) => {
+            resultCache.set(promise, { e })
+            setSelf()
+          },
+        )
+      }
+      const result = resultCache.get(promise)
+      if (result) {
+        return { p: promise, r: result, f: false }
+      }
+      if (prev?.r && 'v' in prev.r) {
+        // stale while revalidate
+        return { p: promise, r: prev.r, f: true }
+      }
+      return { p: promise, f: true }
+    },
+    (get, set, action) => {
+      if (!action) {
+        set(refreshAtom, (c) => c + 1)
+        return
+      }
+      const { r, f } = get(stateAtom)
+      if (f) {
+        return
+      }
+      if (
+        action === 'refetch' ||
+        (r && 't' in r && Date.now() - r.t >= options!.staleTime!)
+      ) {
+        set(promiseAtom)
+      }
+    },
+  )
+  // HACK to read State atom before initialization
+  stateAtom.init = undefined
+  stateAtom.onMount = (dispatch) => {
+    if (options?.staleTime !== undefined) {
+      dispatch('revalidate')
+    }
+    if (options?.refetchInterval !== undefined) {
+      const id = setInterval(() => dispatch('refetch'), options.refetchInterval)
+      return () => clearInterval(id)
+    }
+  }
+
+  if (import.meta.env?.MODE !== 'production') {
+    promiseAtom.debugPrivate = true
+    refreshAtom.debugPrivate = true
+    stateAtom.debugPrivate = true
+  }
+
+  const anAtom = atom(
+    (get) => {
+      const { p, r } = get(stateAtom)
+      if (!r) {
+        return p
+      }
+      if ('e' in r) {
+        throw r.e
+      }
+      return r.v
+    },
+    (_get, set) => set(promiseAtom),
+  )
+  return Object.assign(anAtom, {
+    isFetchingAtom: atom((get) => get(stateAtom).f),
+    lastUpdatedAtAtom: atom((get) => {
+      const { r } = get(stateAtom)
+      return r && 't' in r ? r.t : undefined
+    }),
+  })
+}
@@ -0,0 +1,168 @@
+import { atom } from '../../vanilla.ts'
+import type { Atom, Getter } from '../../vanilla.ts'
+
+type AnyError = unknown
+
+type IterableLike<Data> = AsyncIterable<Data> | ReadableStream<Data>
+
+type GetIterable<Data> = (
+  get: Getter,
+  options: { readonly signal: AbortSignal },
+) => IterableLike<Data>
+
+type Options<Data, Value> = {
+  initialValue?: Value | (() => Value)
+  /** `true` to collect chunks into an array, or a reducer of chunks */
+  accumulate?: true | ((acc: Value, chunk: Data) => Value)
+}
+
+const getIterator = <Data>(
+  iterable: IterableLike<Data>,
+): AsyncIterator<Data> => {
+  if (Symbol.asyncIterator in iterable) {
+    return (iterable as AsyncIterable<Data>)[Symbol.asyncIterator]()
+  }
+  // for ReadableStream without async iteration support
+  const reader = (iterable as ReadableStream<Data>).getReader()
+  return {
+    next: () => reader.read() as Promise<IteratorResult<Data>>,
+    return: async () => {
+      await reader.cancel()
+      return { done: true, value: undefined }
+    },
+  }
+}
+
+/**
+ * Creates an atom with the latest chunk of an async iterable or a ReadableStream.
+ * The iteration starts when the atom is mounted, and is canceled
+ * when the atom is unmounted or its dependencies change.
+ */
+export function atomWithAsyncIterable<Data>(
+  getIterable: GetIterable<Data>,
+  options: { initialValue?: Data[] | (() => Data[]); accumulate: true },
+): Atom<Data[]>
+
+export function atomWithAsyncIterable<Data, Value>(
+  getIterable: GetIterable<Data>,
+  options: {
+    initialValue: Value | (() => Value)
+    accumulate: (acc: Value, chunk: Data) => Value
+  },
+): Atom<Value>
+
+export function atomWithAsyncIterable<Data>(
+  getIterable: GetIterable<Data>,
+  options: { initialValue: Data | (() => Data) },
+): Atom<Data>
+
+export function atomWithAsyncIterable<Data>(
+  getIterable: GetIterable<Data>,
+  options?: { initialValue?: Data | (() => Data) },
+): Atom<Data | Promise<Data>>
+
+export function atomWithAsyncIterable<Data, Value>(
+  getIterable: GetIterable<Data>,
+  options?: Options<Data, Value>,
+) {
+  type Result = { d: Value } | { e: AnyError }
+  const returnResultData = (result: Result) => {
+    if ('e' in result) {
+      throw result.e
+    }
+    return result.d
+  }
+  const accumulate = options?.accumulate
+  const reduce: (acc: Value, chunk: Data) => Value =
+    accumulate === true
+      ? (acc, chunk) => [...(acc as Data[]), chunk] as Value
+      : (accumulate ?? ((_acc, chunk) => chunk as unknown as Value))
+  const getInitialResult = (): Result | undefined => {
+    if (options && 'initialValue' in options) {
+      return {
+        d:
+          typeof options.initialValue === 'function'
+            ? (options.initialValue as () => Value)()
+            : (options.initialValue as Value),
+      }
+    }
+    if (accumulate === true) {
+      return { d: [] as Value }
+    }
+  }
+
+  // per store, to cancel the iterable of the previous read
+  const refAtom = atom(() => ({
+    controller: undefined as AbortController | undefined,
+  }))
+  refAtom.unstable_noEvict = true
+
+  const iterableResultAtom = atom((get) => {
+    const ref = get(refAtom)
+    // dependencies have changed, even if the atom is not mounted
+    ref.controller?.abort()
+    let controller = new AbortController()
+    ref.controller = controller
+    let iterable = getIterable(get, { signal: controller.signal })
+
+    let resolve: ((result: Result) => void) | undefined
+    const initialResult =
+      getInitialResult() ??
+      new Promise<Result>((r) => {
+        resolve = r
+      })
+
+    const resultAtom = atom<Result | Promise<Result>>(initialResult)
+
+    if (import.meta.env?.MODE !== 'production') {
+      resultAtom.debugPrivate = true
+    }
+
+    resultAtom.onMount = (setResult) => {
+      if (controller.signal.aborted) {
+        // remounted, so we need a new iterable
+        controller = new AbortController()
+        ref.controller = controller
+        iterable = getIterable(get, { signal: controller.signal })
+      }
+      const { signal } = controller
+      const iterator = getIterator(iterable)
+      const listener = (result: Result) => {
+        if (!signal.aborted) {
+          resolve?.(result)
+          setResult(result)
+        }
+      }
+      const iterate = async () => {
+        let acc = (initialResult as { d: Value }).d
+        for (;;) {
+          const { done, value } = await iterator.next()
+          if (done || signal.aborted) {
+            return
+          }
+          acc = reduce(acc, value)
+          listener({ d: acc })
+        }
+      }
+      iterate().catch((e) => listener({ e }))
+      return () => {
+        controller.abort()
+        iterator.return?.().catch(() => {})
+      }
+    }
+    return resultAtom
+  })
+
+  if (import.meta.env?.MODE !== 'production') {
+    refAtom.debugPrivate = true
+    iterableResultAtom.debugPrivate = true
+  }
+
+  return atom((get) => {
+    const result = get(get(iterableResultAtom))
+    if (result instanceof Promise) {
+      return result.then(returnResultData)
+    }
+    return returnResultData(result)
+  })
+}
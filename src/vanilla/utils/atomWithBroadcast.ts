@@ -0,0 +1,132 @@
+import { atom } from '../../vanilla.ts'
+import type { SetStateAction, WritableAtom } from '../../vanilla.ts'
+
+type BroadcastOptions = {
+  /** BroadcastChannel name, defaults to 'jotai-broadcast' */
+  channel?: string
+}
+
+// A value with its Lamport timestamp and the id of the writer
+type Stamped<Value> = {
+  value: Value
+  time: number
+  id: string
+}
+
+type Message<Value> =
+  | ({ type: 'update'; key: string } & Stamped<Value>)
+  | { type: 'request'; key: string; id: string }
+
+type Action<Value> =
+  | Message<Value>
+  | { type: 'open'; channel: BroadcastChannel }
+  | { type: 'close' }
+  | { type: 'set'; update: SetStateAction<Value> }
+
+// Last writer wins, and ties are broken by the writer id
+const isNewer = <Value>(a: Stamped<Value>, b: Stamped<Value>) =>
+  a.time > b.time || (a.time === b.time && a.id > b.id)
+
+/**
+ * Creates an atom that syncs its value with other tabs and frames
+ * over BroadcastChannel, while it is mounted.
+ * Concurrent updates are resolved by the last writer with Lamport timestamps.
+ */
+export function atomWithBroadcast<Value>(
+  key: string,
+  initialValue: Value,
+  options?: BroadcastOptions,
+): WritableAtom<Value, [SetStateAction<Value>], void> {
+  const channelName = options?.channel ?? 'jotai-broadcast'
+  const stateAtom = atom<Stamped<Value>>({
+    value: initialValue,
+    time: 0,
+    id: '',
+  })
+  // per store
+  const refAtom = atom(() => ({
+    id: Math.random().toString(36).slice(2),
+    clock: 0,
+    channel: undefined as BroadcastChannel | undefined,
+  }))
+  refAtom.unstable_noEvict = true
+  if (import.meta.env?.MODE !== 'production') {
+    stateAtom.debugPrivate = true
+    refAtom.debugPrivate = true
+  }
+
+  const channelAtom = atom(
+    (get) => get(stateAtom).value,
+    (get, set, action: Action<Value>) => {
+      const ref = get(refAtom)
+      const post = (message: Message<Value>) => {
+        if (ref.channel) {
+          ref.channel.postMessage(message)
+        } else if (typeof BroadcastChannel === 'function') {
+          const channel = new BroadcastChannel(channelName)
+          channel.postMessage(message)
+          channel.close()
+        }
+      }
+      if (action.type === 'open') {
+        ref.channel = action.channel
+        // ask other tabs for their latest value
+        post({ type: 'request', key, id: ref.id })
+        return
+      }
+      if (action.type === 'close') {
+        ref.channel = undefined
+        return
+      }
+      if (action.type === 'set') {
+        const prev = get(stateAtom)
+        const value =
+          typeof action.update === 'function'
+            ? (action.update as (prev: Value) => Value)(prev.value)
+            : action.update
+        const next = { value, time: ++ref.clock, id: ref.id }
+        set(stateAtom, next)
+        post({ type: 'update', key, ...next })
+        return
+      }
+      if (action.key !== key || action.id === ref.id) {
+        return
+      }
+      const state = get(stateAtom)
+      if (action.type === 'request') {
+        if (state.time) {
+          post({ type: 'update', key, ...state })
+        }
+        return
+      }
+      const { value, time, id } = action
+      ref.clock = Math.max(ref.clock, time)
+      const received = { value, time, id }
+      if (isNewer(received, state)) {
+        set(stateAtom, received)
+      }
+    },
+  )
+  channelAtom.onMount = (dispatch) => {
+    if (typeof BroadcastChannel !== 'function') {
+      return
+    }
+    const channel = new BroadcastChannel(channelName)
+    channel.onmessage = (e: MessageEvent<Message<Value>>) => dispatch(e.data)
+    dispatch({ type: 'open', channel })
+    return () => {
+      dispatch({ type: 'close' })
+      channel.close()
+    }
+  }
+  if (import.meta.env?.MODE !== 'production') {
+    channelAtom.debugPrivate = true
+  }
+
+  return atom(
+    (get) => get(channelAtom),
+    (_get, set, update: SetStateAction<Value>) => {
+      set(channelAtom, { type: 'set', update })
+    },
+  )
+}
@@ -0,0 +1,192 @@
+import { atom } from '../../vanilla.ts'
+import type { Atom, PrimitiveAtom, WritableAtom } from '../../vanilla.ts'
+import { RESET } from './constants.ts'
+
+type SetStateActionWithReset<Value> =
+  | Value
+  | typeof RESET
+  | ((prev: Value) => Value | typeof RESET)
+
+type HistoryOptions<Value> = {
+  /** Maximum number of entries to undo */
+  limit?: number
+  /** Updates within this many milliseconds of the last one are recorded as one entry */
+  coalesceMs?: number
+  /** Returns false to update without recording an entry */
+  filter?: (prev: Value, next: Value) => boolean
+}
+
+type History<Value> = {
+  readonly past: readonly Value[]
+  readonly future: readonly Value[]
+  // time of the last recorded update, for coalescing
+  readonly time: number
+}
+
+type HistoryAtoms = {
+  undoAtom: WritableAtom<null, [], void>
+  redoAtom: WritableAtom<null, [], void>
+  canUndoAtom: Atom<boolean>
+  canRedoAtom: Atom<boolean>
+}
+
+const createHistoryAtom = <Value>() => {
+  const historyAtom = atom<History<Value>>({ past: [], future: [], time: 0 })
+  if (import.meta.env?.MODE !== 'production') {
+    historyAtom.debugPrivate = true
+  }
+  return historyAtom
+}
+
+// Returns the history with `prev` recorded as an entry
+const recordHistory = <Value>(
+  history: History<Value>,
+  prev: Value,
+  options: Omit<HistoryOptions<Value>, 'filter'> | undefined,
+): History<Value> => {
+  const now = Date.now()
+  if (
+    options?.coalesceMs !== undefined &&
+    history.past.length &&
+    now - history.time < options.coalesceMs
+  ) {
+    return { past: history.past, future: [], time: now }
+  }
+  const past = [...history.past, prev]
+  if (options?.limit !== undefined && past.length > options.limit) {
+    past.splice(0, past.length - options.limit)
+  }
+  return { past, future: [], time: now }
+}
+
+const createHistoryAtoms = <Value>(
+  historyAtom: PrimitiveAtom<History<Value>>,
+  restore: (
+    get: Parameters<WritableAtom<null, [], void>['write']>[0],
+    set: Parameters<WritableAtom<null, [], void>['write']>[1],
+    value: Value,
+  ) => Value,
+): HistoryAtoms => {
+  const undoAtom = atom(null, (get, set) => {
+    const { past, future } = get(historyAtom)
+    if (past.length) {
+      const current = restore(get, set, past[past.length - 1]!)
+      set(historyAtom, {
+        past: past.slice(0, -1),
+        future: [current, ...future],
+        time: 0,
+      })
+    }
+  })
+  const redoAtom = atom(null, (get, set) => {
+    const { past, future } = get(historyAtom)
+    if (future.length) {
+      const current = restore(get, set, future[0]!)
+      set(historyAtom, {
+        past: [...past, current],
+        future: future.slice(1),
+        time: 0,
+      })
+    }
+  })
+  const canUndoAtom = atom((get) => get(historyAtom).past.length > 0)
+  const canRedoAtom = atom((get) => get(historyAtom).future.length > 0)
+  return { undoAtom, redoAtom, canUndoAtom, canRedoAtom }
+}
+
+/**
+ * Creates an atom that updates `baseAtom` and records its previous values,
+ * with companion atoms to undo and redo the updates.
+ * Updates made directly to `baseAtom` are not recorded.
+ */
+export function atomWithHistory<Value>(
+  baseAtom: PrimitiveAtom<Value>,
+  options?: HistoryOptions<Value>,
+): WritableAtom<Value, [SetStateActionWithReset<Value>], void> & HistoryAtoms {
+  type Update = SetStateActionWithReset<Value>
+  const historyAtom = createHistoryAtom<Value>()
+  const anAtom = atom(
+    (get) => get(baseAtom),
+    (get, set, update: Update) => {
+      const prev = get(baseAtom)
+      const nextValue =
+        typeof update === 'function'
+          ? (update as (prev: Value) => Value | typeof RESET)(prev)
+          : update
+      const next =
+        nextValue === RESET
+          ? (baseAtom as PrimitiveAtom<Value> & { init: Value }).init
+          : nextValue
+      if (Object.is(prev, next)) {
+        return
+      }
+      set(baseAtom, next)
+      if (!options?.filter || options.filter(prev, next)) {
+        set(historyAtom, (history) => recordHistory(history, prev, options))
+      }
+    },
+  )
+  return Object.assign(
+    anAtom,
+    createHistoryAtoms(historyAtom, (get, set, value) => {
+      const current = get(baseAtom)
+      set(baseAtom, value)
+      return current
+    }),
+  )
+}
+
+/**
+ * Creates companion atoms to undo and redo updates to several atoms together.
+ * Updates in a single `set` or store transaction are recorded as one entry.
+ * Updates are recorded in a store once any of the companion atoms is used in it.
+ */
+export function atomWithGroupedHistory<Values extends unknown[]>(
+  groupedAtoms: { readonly [K in keyof Values]: PrimitiveAtom<Values[K]> },
+  options?: Omit<HistoryOptions<unknown>, 'filter'>,
+): HistoryAtoms {
+  const atoms = groupedAtoms as readonly PrimitiveAtom<unknown>[]
+  const historyAtom = createHistoryAtom<unknown[]>()
+  const refAtom = atom(() => ({ isRestoring: false }))
+  refAtom.unstable_noEvict = true
+  if (import.meta.env?.MODE !== 'production') {
+    refAtom.debugPrivate = true
+  }
+  historyAtom.unstable_onInit = (store) => {
+    // values before the first change since the last flush
+    let entry: unknown[] | undefined
+    const ref = store.get(refAtom)
+    // initialize values, so that change events have previous values
+    atoms.forEach((a) => store.get(a))
+    for (const a of atoms) {
+      store.hooks.change.add(a, ({ atom: changedAtom, prev }) => {
+        if (!entry && !ref.isRestoring) {
+          entry = atoms.map((a) => (a === changedAtom ? prev : store.get(a)))
+        }
+      })
+    }
+    store.hooks.flush.add(() => {
+      if (entry) {
+        const prev = entry
+        entry = undefined
+        // nothing to record if the values are restored, for example by a rollback
+        if (atoms.some((a, i) => !Object.is(store.get(a), prev[i]))) {
+          store.set(historyAtom, (history) =>
+            recordHistory(history, prev, options),
+          )
+        }
+      }
+    })
+  }
+  return createHistoryAtoms(historyAtom, (get, set, values) => {
+    const ref = get(refAtom)
+    const current = atoms.map((a) => get(a))
+    ref.isRestoring = true
+    try {
+      atoms.forEach((a, i) => set(a, values[i]))
+    } finally {
+      ref.isRestoring = false
+    }
+    return current
+  })
+}
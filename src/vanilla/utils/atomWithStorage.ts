@@ -51,16 +51,24 @@ export interface SyncStringStorage {
   subscribe?: StringSubscribe
 }
 
-export function withStorageValidator<Value>(
-  validator: (value: unknown) => value is Value,
-): {
+type Validator<Value> = (value: unknown) => value is Value
+
+// storages created by withStorageValidator with the storages they wrap,
+// so that versioned values are validated after they are unwrapped
+const validatedStorages = new WeakMap<
+  object,
+  [
+    storage: AsyncStorage<unknown> | SyncStorage<unknown>,
+    validator: Validator<unknown>,
+  ]
+>()
+
+export function withStorageValidator<Value>(validator: Validator<Value>): {
   (storage: AsyncStorage<unknown>): AsyncStorage<Value>
   (storage: SyncStorage<unknown>): SyncStorage<Value>
 }
 
-export function withStorageValidator<Value>(
-  validator: (value: unknown) => value is Value,
-) {
+export function withStorageValidator<Value>(validator: Validator<Value>) {
   return (unknownStorage: AsyncStorage<unknown> | SyncStorage<unknown>) => {
     const storage = {
       ...unknownStorage,
@@ -78,10 +86,103 @@ export function withStorageValidator<Value>(
         return validate(value)
       },
     }
+    validatedStorages.set(storage, [unknownStorage, validator])
     return storage
   }
 }
 
+type Migrate = (oldValue: unknown, oldVersion: number) => unknown
+
+type VersionedValue = { v: number; data: unknown }
+
+type StorageOptions = {
+  getOnInit?: boolean
+  /**
+   * Version of the stored value, which is saved as `{ v, data }`.
+   * Values without a version are considered version 0.
+   */
+  version?: number
+  /**
+   * Upgrades a value of `oldVersion` to `oldVersion + 1`,
+   * called for each version up to `version`.
+   */
+  migrate?: Migrate
+  /** Delays storage writes until no update is made for this many milliseconds */
+  writeDelay?: number
+  /** Writes to storage at most once in this many milliseconds */
+  throttle?: number
+}
+
+const isVersionedValue = (x: unknown): x is VersionedValue =>
+  typeof (x as VersionedValue)?.v === 'number' && 'data' in (x as object)
+
+const NO_VALUE = Symbol()
+
+// Stores values with the version, and upgrades older values on read.
+// Upgraded values are written back.
+const withStorageVersion = <Value>(
+  storage: AsyncStorage<unknown> | SyncStorage<unknown>,
+  version: number,
+  migrate: Migrate | undefined,
+): AsyncStorage<Value> | SyncStorage<Value> => {
+  const upgrade = (
+    key: string,
+    storedValue: unknown,
+    initialValue: Value,
+    writeBack: boolean,
+  ): Value => {
+    if (storedValue === NO_VALUE) {
+      return initialValue
+    }
+    let [oldVersion, data] = isVersionedValue(storedValue)
+      ? [storedValue.v, storedValue.data]
+      : [0, storedValue]
+    if (oldVersion === version) {
+      return data as Value
+    }
+    if (oldVersion > version) {
+      // written by a newer version, which we can't read
+      return initialValue
+    }
+    try {
+      for (; oldVersion < version; ++oldVersion) {
+        data = migrate ? migrate(data, oldVersion) : data
+      }
+    } catch (e) {
+      if (import.meta.env?.MODE !== 'production') {
+        console.warn('Failed to migrate stored value', key, e)
+      }
+      return initialValue
+    }
+    if (writeBack) {
+      storage.setItem(key, { v: version, data })
+    }
+    return data as Value
+  }
+  const versionedStorage = {
+    getItem: (key: string, initialValue: Value) => {
+      const storedValue = storage.getItem(key, NO_VALUE)
+      if (isPromiseLike(storedValue)) {
+        return storedValue.then((v) => upgrade(key, v, initialValue, true))
+      }
+      return upgrade(key, storedValue, initialValue, true)
+    },
+    setItem: (key: string, newValue: Value) =>
+      storage.setItem(key, { v: version, data: newValue }),
+    removeItem: (key: string) => storage.removeItem(key),
+  } as AsyncStorage<Value> | SyncStorage<Value>
+  const { subscribe } = storage
+  if (subscribe) {
+    versionedStorage.subscribe = (key, callback, initialValue) =>
+      subscribe(
+        key,
+        (v) => callback(upgrade(key, v, initialValue, false)),
+        NO_VALUE,
+      )
+  }
+  return versionedStorage
+}
+
 type JsonStorageOptions = {
   reviver?: (key: string, value: unknown) => unknown
   replacer?: (key: string, value: unknown) => unknown
@@ -197,11 +298,63 @@ export function createJSONStorage<Value>(
 
 const defaultStorage = createJSONStorage()
 
+const pendingFlushes = new Set<() => void>()
+let isListeningBeforeUnload = false
+
+/**
+ * Writes pending values of atoms with `writeDelay` or `throttle` to storage.
+ */
+export function flushStorage(): void {
+  pendingFlushes.forEach((flush) => flush())
+}
+
+// Coalesces storage writes, keeping only the last one.
+const createDeferredWrite = (options: StorageOptions) => {
+  let pendingWrite: (() => unknown) | undefined
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+  let lastWriteTime = 0
+  const flush = () => {
+    clearTimeout(timeoutId)
+    timeoutId = undefined
+    pendingFlushes.delete(flush)
+    const write = pendingWrite
+    pendingWrite = undefined
+    if (write) {
+      lastWriteTime = Date.now()
+      write()
+    }
+  }
+  const schedule = (write: () => unknown) => {
+    pendingWrite = write
+    pendingFlushes.add(flush)
+    if (
+      !isListeningBeforeUnload &&
+      typeof window !== 'undefined' &&
+      typeof window.addEventListener === 'function'
+    ) {
+      isListeningBeforeUnload = true
+      window.addEventListener('beforeunload', flushStorage)
+    }
+    if (options.throttle !== undefined) {
+      if (timeoutId === undefined) {
+        timeoutId = setTimeout(
+          flush,
+          Math.max(0, lastWriteTime + options.throttle - Date.now()),
+        )
+      }
+    } else {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(flush, options.writeDelay)
+    }
+  }
+  return [schedule, flush] as const
+}
+
 export function atomWithStorage<Value>(
   key: string,
   initialValue: Value,
   storage: AsyncStorage<Value>,
-  options?: { getOnInit?: boolean },
+  options?: StorageOptions,
 ): WritableAtom<
   Value | Promise<Value>,
   [SetStateActionWithReset<Value | Promise<Value>>],
@@ -212,7 +365,7 @@ export function atomWithStorage<Value>(
   key: string,
   initialValue: Value,
   storage?: SyncStorage<Value>,
-  options?: { getOnInit?: boolean },
+  options?: StorageOptions,
 ): WritableAtom<Value, [SetStateActionWithReset<Value>], void>
 
 export function atomWithStorage<Value>(
@@ -221,9 +374,31 @@ export function atomWithStorage<Value>(
   storage:
     | SyncStorage<Value>
     | AsyncStorage<Value> = defaultStorage as SyncStorage<Value>,
-  options?: { getOnInit?: boolean },
+  options?: StorageOptions,
 ) {
   const getOnInit = options?.getOnInit
+  if (options?.version !== undefined) {
+    // values are validated after they are unwrapped and migrated
+    const [unvalidatedStorage, validator] = validatedStorages.get(storage) || [
+      storage as SyncStorage<unknown>,
+    ]
+    storage = withStorageVersion(
+      unvalidatedStorage,
+      options.version,
+      options.migrate,
+    )
+    if (validator) {
+      storage = withStorageValidator(validator)(
+        storage as SyncStorage<unknown>,
+      ) as SyncStorage<Value>
+    }
+  }
+  const [scheduleWrite, flushWrite] =
+    options?.writeDelay !== undefined || options?.throttle !== undefined
+      ? createDeferredWrite(options)
+      : []
+  const write = <T>(fn: () => T) => (scheduleWrite ? scheduleWrite(fn) : fn())
+
   const baseAtom = atom(
     getOnInit
       ? (storage.getItem(key, initialValue) as Value | Promise<Value>)
@@ -235,11 +410,18 @@ export function atomWithStorage<Value>(
   }
 
   baseAtom.onMount = (setAtom) => {
+    flushWrite?.()
     setAtom(storage.getItem(key, initialValue) as Value | Promise<Value>)
     let unsub: Unsubscribe | undefined
     if (storage.subscribe) {
       unsub = storage.subscribe(key, setAtom, initialValue)
     }
+    if (flushWrite) {
+      return () => {
+        unsub?.()
+        flushWrite()
+      }
+    }
     return unsub
   }
 
@@ -256,16 +438,16 @@ export function atomWithStorage<Value>(
           : update
       if (nextValue === RESET) {
         set(baseAtom, initialValue)
-        return storage.removeItem(key)
+        return write(() => storage.removeItem(key))
       }
       if (nextValue instanceof Promise) {
         return nextValue.then((resolvedValue) => {
           set(baseAtom, resolvedValue)
-          return storage.setItem(key, resolvedValue)
+          return write(() => storage.setItem(key, resolvedValue))
         })
       }
       set(baseAtom, nextValue)
-      return storage.setItem(key, nextValue)
+      return write(() => storage.setItem(key, nextValue))
     },
   )
 
@@ -0,0 +1,163 @@
+import type { AsyncStorage } from './atomWithStorage.ts'
+
+type IDBStorageOptions = {
+  /** Database name, defaults to 'jotai' */
+  dbName?: string
+  /** Object store name, defaults to 'atoms' */
+  storeName?: string
+  /** IndexedDB factory, defaults to `indexedDB` */
+  indexedDB?: IDBFactory
+}
+
+type Unsubscribe = () => void
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const promisifyTransaction = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onabort = transaction.onerror = () => reject(transaction.error)
+  })
+
+const REMOVE = Symbol()
+
+/**
+ * Creates an async storage backed by IndexedDB.
+ * Values are stored as structured clones, without JSON serialization.
+ * Writes in the same microtask are batched in one transaction,
+ * and other tabs are notified with BroadcastChannel.
+ * A missing object store is added by upgrading the database version.
+ */
+export function createIDBStorage<Value>(
+  options?: IDBStorageOptions,
+): AsyncStorage<Value> {
+  const dbName = options?.dbName ?? 'jotai'
+  const storeName = options?.storeName ?? 'atoms'
+  let dbPromise: Promise<IDBDatabase> | undefined
+  const openDB = (version?: number): Promise<IDBDatabase> => {
+    const request = (options?.indexedDB ?? indexedDB).open(dbName, version)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName)
+      }
+    }
+    return promisifyRequest(request).then(
+      (db) => {
+        if (!db.objectStoreNames.contains(storeName)) {
+          // the database is created by another storage, so upgrade it
+          db.close()
+          return openDB(db.version + 1)
+        }
+        // let other storages upgrade the database
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = undefined
+        }
+        return db
+      },
+      (error) => {
+        if (version !== undefined && error?.name === 'VersionError') {
+          // upgraded by another storage in the meantime
+          return openDB()
+        }
+        throw error
+      },
+    )
+  }
+  const getDB = () => {
+    if (!dbPromise) {
+      dbPromise = openDB().catch((error) => {
+        dbPromise = undefined
+        throw error
+      })
+    }
+    return dbPromise
+  }
+
+  const listeners = new Map<string, Set<() => void>>()
+  let channel: BroadcastChannel | undefined
+  const getChannel = () => {
+    if (!channel && typeof BroadcastChannel === 'function') {
+      channel = new BroadcastChannel(`jotai-idb:${dbName}/${storeName}`)
+      // not to keep Node.js processes alive
+      ;(channel as { unref?: () => void }).unref?.()
+      channel.onmessage = (e: MessageEvent<string[]>) => {
+        for (const key of e.data) {
+          listeners.get(key)?.forEach((listener) => listener())
+        }
+      }
+    }
+    return channel
+  }
+
+  let pendingWrites = new Map<string, Value | typeof REMOVE>()
+  let flushPromise: Promise<void> | undefined
+  const flushWrites = async () => {
+    const writes = pendingWrites
+    pendingWrites = new Map()
+    flushPromise = undefined
+    const db = await getDB()
+    const transaction = db.transaction(storeName, 'readwrite')
+    const objectStore = transaction.objectStore(storeName)
+    for (const [key, value] of writes) {
+      if (value === REMOVE) {
+        objectStore.delete(key)
+      } else {
+        objectStore.put(value, key)
+      }
+    }
+    await promisifyTransaction(transaction)
+    getChannel()?.postMessage(Array.from(writes.keys()))
+  }
+  const write = (key: string, value: Value | typeof REMOVE) => {
+    pendingWrites.set(key, value)
+    if (!flushPromise) {
+      flushPromise = Promise.resolve().then(flushWrites)
+      // callers may not handle the promise, for example atomWithStorage
+      flushPromise.catch((e) => {
+        if (import.meta.env?.MODE !== 'production') {
+          console.warn('Failed to write to IndexedDB', e)
+        }
+      })
+    }
+    return flushPromise
+  }
+
+  const storage: AsyncStorage<Value> = {
+    getItem: async (key, initialValue) => {
+      if (pendingWrites.has(key)) {
+        const value = pendingWrites.get(key)!
+        return value === REMOVE ? initialValue : value
+      }
+      const db = await getDB()
+      const value = await promisifyRequest<Value | undefined>(
+        db.transaction(storeName).objectStore(storeName).get(key),
+      )
+      return value === undefined ? initialValue : value
+    },
+    setItem: (key, newValue) => write(key, newValue),
+    removeItem: (key) => write(key, REMOVE),
+  }
+  if (typeof BroadcastChannel === 'function') {
+    storage.subscribe = (key, callback, initialValue): Unsubscribe => {
+      getChannel()
+      const listener = () => {
+        storage.getItem(key, initialValue).then(callback)
+      }
+      let keyListeners = listeners.get(key)
+      if (!keyListeners) {
+        keyListeners = new Set()
+        listeners.set(key, keyListeners)
+      }
+      keyListeners.add(listener)
+      return () => {
+        keyListeners.delete(listener)
+      }
+    }
+  }
+  return storage
+}
@@ -0,0 +1,86 @@
+import type { SyncStorage } from './atomWithStorage.ts'
+
+type SearchParamsStorageOptions<Value> = {
+  /** Stores values in `location.search` or `location.hash`, defaults to 'search' */
+  mode?: 'search' | 'hash'
+  /** Adds a history entry for each update or replaces it, defaults to 'replace' */
+  history?: 'push' | 'replace'
+  /** Defaults to `JSON.stringify` */
+  serialize?: (value: Value) => string
+  /** Defaults to `JSON.parse` */
+  deserialize?: (str: string) => Value
+}
+
+type Unsubscribe = () => void
+
+/**
+ * Creates a storage that keeps values in the query string or the URL hash,
+ * merged with other keys, and subscribes to history navigation.
+ */
+export function createSearchParamsStorage<Value>(
+  options?: SearchParamsStorageOptions<Value>,
+): SyncStorage<Value> {
+  const mode = options?.mode ?? 'search'
+  const serialize = options?.serialize ?? JSON.stringify
+  const deserialize = options?.deserialize ?? JSON.parse
+  const getParams = () =>
+    new URLSearchParams(
+      mode === 'hash' ? window.location.hash.slice(1) : window.location.search,
+    )
+  const updateParams = (update: (params: URLSearchParams) => void) => {
+    if (typeof window === 'undefined') {
+      return
+    }
+    const prevParams = getParams()
+    const params = new URLSearchParams(prevParams)
+    update(params)
+    const str = params.toString()
+    if (str === prevParams.toString()) {
+      return
+    }
+    const { pathname, search, hash } = window.location
+    const url =
+      mode === 'hash'
+        ? `${pathname}${search}${str ? '#' + str : ''}`
+        : `${pathname}${str ? '?' + str : ''}${hash}`
+    if (options?.history === 'push') {
+      window.history.pushState(window.history.state, '', url)
+    } else {
+      window.history.replaceState(window.history.state, '', url)
+    }
+  }
+  const storage: SyncStorage<Value> = {
+    getItem: (key, initialValue) => {
+      if (typeof window === 'undefined') {
+        return initialValue
+      }
+      const str = getParams().get(key)
+      if (str === null) {
+        return initialValue
+      }
+      try {
+        return deserialize(str)
+      } catch {
+        return initialValue
+      }
+    },
+    setItem: (key, newValue) =>
+      updateParams((params) => params.set(key, serialize(newValue))),
+    removeItem: (key) => updateParams((params) => params.delete(key)),
+    subscribe: (key, callback, initialValue): Unsubscribe => {
+      if (
+        typeof window === 'undefined' ||
+        typeof window.addEventListener !== 'function'
+      ) {
+        return () => {}
+      }
+      const listener = () => callback(storage.getItem(key, initialValue))
+      const type = mode === 'hash' ? 'hashchange' : 'popstate'
+      window.addEventListener(type, listener)
+      return () => {
+        window.removeEventListener(type, listener)
+      }
+    },
+  }
+  return storage
+}
@@ -0,0 +1,69 @@
+import { atom, shallowEqual } from '../../vanilla.ts'
+import type {
+  Atom,
+  ExtractAtomValue,
+  WritableAtom,
+  createStore,
+} from '../../vanilla.ts'
+import type { AtomFamily } from './atomFamily.ts'
+import { RESET } from './constants.ts'
+
+type Store = ReturnType<typeof createStore>
+type AnyWritableAtom = WritableAtom<unknown, [unknown], unknown>
+
+/**
+ * Creates an atom with a Map of params to values of the family members.
+ * Members created or removed while the atom is mounted are reflected.
+ * While it is not mounted, `store.get` can return a stale Map that misses them.
+ */
+export function familyValuesAtom<Param, AtomType extends Atom<unknown>>(
+  family: AtomFamily<Param, AtomType>,
+): Atom<Map<Param, ExtractAtomValue<AtomType>>> {
+  const versionAtom = atom(0)
+  versionAtom.onMount = (setVersion) => {
+    // members may have changed while unmounted
+    setVersion((v) => v + 1)
+    return family.unstable_listen(() => setVersion((v) => v + 1))
+  }
+  if (import.meta.env?.MODE !== 'production') {
+    versionAtom.debugPrivate = true
+  }
+  return atom(
+    (get) => {
+      get(versionAtom)
+      return new Map(
+        Array.from(
+          family.getParams(),
+          (param) => [param, get(family(param))] as const,
+        ),
+      ) as Map<Param, ExtractAtomValue<AtomType>>
+    },
+    { equals: shallowEqual },
+  )
+}
+
+/**
+ * Resets the values of all family members in the store in a single transaction.
+ * Atoms with an initial value are restored to it without calling their write functions,
+ * and other writable atoms get `RESET`.
+ */
+export function resetFamily<Param, AtomType extends Atom<unknown>>(
+  store: Store,
+  family: AtomFamily<Param, AtomType>,
+): void {
+  store.transaction((_get, set) => {
+    const values: [Atom<unknown>, unknown][] = []
+    for (const param of Array.from(family.getParams())) {
+      const anAtom = family(param) as AtomType & Partial<AnyWritableAtom>
+      if (!anAtom.write) {
+        continue
+      }
+      if ('init' in anAtom) {
+        values.push([anAtom, (anAtom as { init: unknown }).init])
+      } else {
+        set(anAtom as AnyWritableAtom, RESET)
+      }
+    }
+    store.restore(values)
+  })
+}
@@ -32,18 +32,17 @@ export function freezeAtom(
   if ('write' in anAtom) {
     const origWrite = anAtom.write
     anAtom.write = function (get, set, ...args) {
-      return origWrite.call(
-        this,
-        get,
-        (...setArgs) => {
-          if (setArgs[0] === anAtom) {
-            setArgs[1] = deepFreeze(setArgs[1])
-          }
+      const freezeSet: typeof set = (...setArgs) => {
+        if (setArgs[0] === anAtom) {
+          setArgs[1] = deepFreeze(setArgs[1])
+        }
 
-          return set(...setArgs)
-        },
-        ...args,
-      )
+        return set(...setArgs)
+      }
+      if (set.transaction) {
+        freezeSet.transaction = set.transaction
+      }
+      return origWrite.call(this, get, freezeSet, ...args)
     }
   }
   return anAtom
@@ -1,5 +1,5 @@
-import { atom } from '../../vanilla.ts'
-import type { Atom } from '../../vanilla.ts'
+import { atom, shallowEqual } from '../../vanilla.ts'
+import type { Atom, WritableAtom } from '../../vanilla.ts'
 
 const cache1 = new WeakMap()
 const memo1 = <T>(create: () => T, dep1: object): T =>
@@ -13,9 +13,37 @@ export type Loadable<Value> =
   | { state: 'hasError'; error: unknown }
   | { state: 'hasData'; data: Awaited<Value> }
 
+export type LoadableWithPrevious<Value> =
+  | { state: 'loading'; previous?: Awaited<Value> }
+  | { state: 'hasError'; error: unknown; previous?: Awaited<Value> }
+  | { state: 'hasData'; data: Awaited<Value>; isRefreshing: boolean }
+
+type LoadableOptions = {
+  /** Keeps the previous data while a new promise is pending */
+  keepPrevious?: boolean
+}
+
 const LOADING: Loadable<unknown> = { state: 'loading' }
 
-export function loadable<Value>(anAtom: Atom<Value>): Atom<Loadable<Value>> {
+export function loadable<Value>(anAtom: Atom<Value>): Atom<Loadable<Value>>
+
+export function loadable<Value>(
+  anAtom: Atom<Value>,
+  options: LoadableOptions & { keepPrevious: true },
+): Atom<LoadableWithPrevious<Value>>
+
+export function loadable<Value>(
+  anAtom: Atom<Value>,
+  options?: LoadableOptions,
+): Atom<Loadable<Value>>
+
+export function loadable<Value>(
+  anAtom: Atom<Value>,
+  options?: LoadableOptions,
+) {
+  if (options?.keepPrevious) {
+    return loadableWithPrevious(anAtom)
+  }
   return memo1(() => {
     const loadableCache = new WeakMap<
       Promise<Awaited<Value>>,
@@ -74,3 +102,92 @@ export function loadable<Value>(anAtom: Atom<Value>): Atom<Loadable<Value>> {
     return atom((get) => get(derivedAtom))
   }, anAtom)
 }
+
+const cache2 = new WeakMap()
+const memo2 = <T>(create: () => T, dep1: object): T =>
+  (cache2.has(dep1) ? cache2 : cache2.set(dep1, create())).get(dep1)
+
+function loadableWithPrevious<Value>(
+  anAtom: Atom<Value>,
+): Atom<LoadableWithPrevious<Value>> {
+  return memo2(() => {
+    type Result = { data: Awaited<Value> } | { error: unknown }
+    // undefined while pending
+    const resultCache = new WeakMap<
+      Promise<Awaited<Value>>,
+      Result | undefined
+    >()
+    const refreshAtom = atom(0)
+
+    if (import.meta.env?.MODE !== 'production') {
+      refreshAtom.debugPrivate = true
+    }
+
+    const derivedAtom: WritableAtom<LoadableWithPrevious<Value>, [], void> & {
+      init?: undefined
+    } = atom(
+      (get, { setSelf }) => {
+        get(refreshAtom)
+        const prev = get(derivedAtom) as LoadableWithPrevious<Value> | undefined
+        const compute = (): LoadableWithPrevious<Value> => {
+          const previous =
+            prev?.state === 'hasData'
+              ? { previous: prev.data }
+              : prev && 'previous' in prev
+                ? { previous: prev.previous }
+                : {}
+          let value: Value
+          try {
+            value = get(anAtom)
+          } catch (error) {
+            return { state: 'hasError', error, ...previous }
+          }
+          if (!isPromise<Value>(value)) {
+            return {
+              state: 'hasData',
+              data: value as Awaited<Value>,
+              isRefreshing: false,
+            }
+          }
+          const promise = value
+          if (!resultCache.has(promise)) {
+            resultCache.set(promise, undefined)
+            promise.then(
+              (data) => {
+                resultCache.set(promise, { data })
+                setSelf()
+              },
+              (error) => {
+                resultCache.set(promise, { error })
+                setSelf()
+              },
+            )
+          }
+          const result = resultCache.get(promise)
+          if (result) {
+            return 'data' in result
+              ? { state: 'hasData', data: result.data, isRefreshing: false }
+              : { state: 'hasError', error: result.error, ...previous }
+          }
+          if (prev?.state === 'hasData') {
+            return { state: 'hasData', data: prev.data, isRefreshing: true }
+          }
+          return { state: 'loading', ...previous }
+        }
+        const next = compute()
+        return prev && shallowEqual(prev, next) ? prev : next
+      },
+      (_get, set) => {
+        set(refreshAtom, (c) => c + 1)
+      },
+    )
+    // HACK to read the derived atom before initialization
+    derivedAtom.init = undefined
+
+    if (import.meta.env?.MODE !== 'production') {
+      derivedAtom.debugPrivate = true
+    }
+
+    return atom((get) => get(derivedAtom))
+  }, anAtom)
+}
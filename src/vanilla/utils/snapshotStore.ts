@@ -0,0 +1,159 @@
+import type { Atom, WritableAtom, createStore } from '../../vanilla.ts'
+import { stableHash } from './atomFamily.ts'
+import type { AtomFamily } from './atomFamily.ts'
+
+type Store = ReturnType<typeof createStore>
+type AnyAtom = Atom<unknown>
+type AnyWritableAtom = WritableAtom<unknown, [unknown], unknown>
+
+type SerializedError = {
+  name: string
+  message: string
+}
+
+type SnapshotEntry =
+  | { v: unknown; p?: true } // value, or resolved value if `p`
+  | { e: unknown; p?: true } // error, or rejection reason if `p`
+
+export type StoreSnapshot = Record<string, SnapshotEntry>
+
+type SnapshotOptions = (
+  | {
+      /**
+       * Atoms keyed by their `key` option, or by `String(atom)` otherwise.
+       */
+      atoms: Iterable<AnyAtom>
+    }
+  | {
+      registry: Record<string, AnyAtom>
+    }
+) & {
+  /**
+   * Families whose members are keyed by `name/param`,
+   * where `param` is the JSON-serializable param hashed by `stableHash`.
+   */
+  families?: Record<string, AtomFamily<any, AnyAtom>>
+}
+
+const isPromiseLike = (x: unknown): x is PromiseLike<unknown> =>
+  typeof (x as any)?.then === 'function'
+
+const isRestorable = (a: AnyAtom): a is AnyWritableAtom =>
+  !!(a as AnyWritableAtom).write && 'init' in a
+
+const getKeyedAtoms = (
+  options: SnapshotOptions,
+): Iterable<readonly [string, AnyAtom]> => [
+  ...('registry' in options
+    ? Object.entries(options.registry)
+    : Array.from(options.atoms, (a) => [a.key ?? String(a), a] as const)),
+  ...Object.entries(options.families ?? {}).flatMap(([name, family]) =>
+    Array.from(
+      family.getParams(),
+      (param) => [`${name}/${stableHash(param)}`, family(param)] as const,
+    ),
+  ),
+]
+
+// Gets the family member for a key, creating it if necessary
+const getFamilyAtom = (
+  options: SnapshotOptions,
+  key: string,
+): AnyAtom | undefined => {
+  for (const [name, family] of Object.entries(options.families ?? {})) {
+    if (key.startsWith(name + '/')) {
+      try {
+        return family(JSON.parse(key.slice(name.length + 1)))
+      } catch {
+        // not a family member
+      }
+    }
+  }
+}
+
+const serializeError = (error: unknown): unknown => {
+  if (error instanceof Error) {
+    const serialized: SerializedError = {
+      name: error.name,
+      message: error.message,
+    }
+    return serialized
+  }
+  return error
+}
+
+const deserializeError = (error: unknown): unknown => {
+  if (
+    typeof (error as SerializedError)?.name === 'string' &&
+    typeof (error as SerializedError)?.message === 'string'
+  ) {
+    const { name, message } = error as SerializedError
+    return Object.assign(new Error(message), { name })
+  }
+  return error
+}
+
+/**
+ * Takes a JSON-serializable snapshot of atom values in the store.
+ * Pending promises are awaited, and errors are serialized with their name and message.
+ * Private atoms are skipped.
+ */
+export async function snapshotStore(
+  store: Store,
+  options: SnapshotOptions,
+): Promise<StoreSnapshot> {
+  const snapshot: StoreSnapshot = {}
+  await Promise.all(
+    Array.from(getKeyedAtoms(options), async ([key, anAtom]) => {
+      if (anAtom.debugPrivate) {
+        return
+      }
+      let value: unknown
+      try {
+        value = store.get(anAtom)
+      } catch (error) {
+        snapshot[key] = { e: serializeError(error) }
+        return
+      }
+      if (isPromiseLike(value)) {
+        try {
+          snapshot[key] = { v: await value, p: true }
+        } catch (error) {
+          snapshot[key] = { e: serializeError(error), p: true }
+        }
+        return
+      }
+      snapshot[key] = { v: value }
+    }),
+  )
+  return snapshot
+}
+
+/**
+ * Restores a snapshot taken by `snapshotStore` in a single transaction.
+ * Only writable atoms with an initial value are restored,
+ * and their write functions are not called.
+ * Promise values are restored as settled promises.
+ */
+export function restoreStore(
+  store: Store,
+  snapshot: StoreSnapshot,
+  options: SnapshotOptions,
+): void {
+  const atoms = new Map(getKeyedAtoms(options))
+  const values: [AnyAtom, unknown][] = []
+  for (const [key, entry] of Object.entries(snapshot)) {
+    const anAtom = atoms.get(key) ?? getFamilyAtom(options, key)
+    if (!anAtom || !isRestorable(anAtom)) {
+      continue
+    }
+    if ('v' in entry) {
+      values.push([anAtom, entry.p ? Promise.resolve(entry.v) : entry.v])
+    } else if (entry.p) {
+      const promise = Promise.reject(deserializeError(entry.e))
+      promise.catch(() => {})
+      values.push([anAtom, promise])
+    }
+  }
+  store.restore(values)
+}
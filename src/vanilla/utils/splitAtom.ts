@@ -59,6 +59,8 @@ export function splitAtom<Item, Key>(
         arr: Item[]
         atomList: ItemAtom[]
         keyList: Key[]
+        keyMap: Map<Key, number>
+        atomMap: Map<ItemAtom, number>
       }
       const mappingCache = new WeakMap<Item[], Mapping>()
       const getMapping = (arr: Item[], prev?: Item[]) => {
@@ -69,14 +71,18 @@ export function splitAtom<Item, Key>(
         const prevMapping = prev && mappingCache.get(prev)
         const atomList: Atom<Item>[] = []
         const keyList: Key[] = []
+        const keyMap = new Map<Key, number>()
         arr.forEach((item, index) => {
           const key = keyExtractor
             ? keyExtractor(item)
             : (index as unknown as Key)
           keyList[index] = key
+          if (!keyMap.has(key)) {
+            keyMap.set(key, index)
+          }
           const cachedAtom =
             prevMapping &&
-            prevMapping.atomList[prevMapping.keyList.indexOf(key)]
+            prevMapping.atomList[prevMapping.keyMap.get(key) ?? -1]
           if (cachedAtom) {
             atomList[index] = cachedAtom
             return
@@ -85,10 +91,10 @@ export function splitAtom<Item, Key>(
             const prev = get(mappingAtom) as Mapping | undefined
             const currArr = get(arrAtom)
             const mapping = getMapping(currArr, prev?.arr)
-            const index = mapping.keyList.indexOf(key)
+            const index = mapping.keyMap.get(key) ?? -1
             if (index < 0 || index >= currArr.length) {
               // returning a stale value to avoid errors for use cases such as react-spring
-              const prevItem = arr[getMapping(arr).keyList.indexOf(key)]
+              const prevItem = arr[getMapping(arr).keyMap.get(key) ?? -1]
               if (prevItem) {
                 return prevItem
               }
@@ -104,7 +110,7 @@ export function splitAtom<Item, Key>(
             const prev = get(mappingAtom) as Mapping | undefined
             const arr = get(arrAtom)
             const mapping = getMapping(arr, prev?.arr)
-            const index = mapping.keyList.indexOf(key)
+            const index = mapping.keyMap.get(key) ?? -1
             if (index < 0 || index >= arr.length) {
               throw new Error('splitAtom: index out of bounds for write')
             }
@@ -121,6 +127,12 @@ export function splitAtom<Item, Key>(
           }
           atomList[index] = isWritable(arrAtom) ? atom(read, write) : atom(read)
         })
+        const atomMap = new Map<ItemAtom, number>()
+        atomList.forEach((a, index) => {
+          if (!atomMap.has(a)) {
+            atomMap.set(a, index)
+          }
+        })
         if (
           prevMapping &&
           prevMapping.keyList.length === keyList.length &&
@@ -129,7 +141,7 @@ export function splitAtom<Item, Key>(
           // not changed
           mapping = prevMapping
         } else {
-          mapping = { arr, atomList, keyList }
+          mapping = { arr, atomList, keyList, keyMap, atomMap }
         }
         mappingCache.set(arr, mapping)
         return mapping
@@ -149,13 +161,15 @@ export function splitAtom<Item, Key>(
 
       // HACK to read mapping atom before initialization
       mappingAtom.init = undefined
+      const getIndex = (get: Getter, anAtom: ItemAtom) =>
+        get(mappingAtom).atomMap.get(anAtom) ?? -1
       const splittedAtom = isWritable(arrAtom)
         ? atom(
             (get) => get(mappingAtom).atomList,
             (get, set, action: SplitAtomAction<Item>) => {
               switch (action.type) {
                 case 'remove': {
-                  const index = get(splittedAtom).indexOf(action.atom)
+                  const index = getIndex(get, action.atom)
                   if (index >= 0) {
                     const arr = get(arrAtom)
                     set(arrAtom as WritableAtom<Item[], [Item[]], void>, [
@@ -167,7 +181,7 @@ export function splitAtom<Item, Key>(
                 }
                 case 'insert': {
                   const index = action.before
-                    ? get(splittedAtom).indexOf(action.before)
+                    ? getIndex(get, action.before)
                     : get(splittedAtom).length
                   if (index >= 0) {
                     const arr = get(arrAtom)
@@ -180,9 +194,9 @@ export function splitAtom<Item, Key>(
                   break
                 }
                 case 'move': {
-                  const index1 = get(splittedAtom).indexOf(action.atom)
+                  const index1 = getIndex(get, action.atom)
                   const index2 = action.before
-                    ? get(splittedAtom).indexOf(action.before)
+                    ? getIndex(get, action.before)
                     : get(splittedAtom).length
                   if (index1 >= 0 && index2 >= 0) {
                     const arr = get(arrAtom)
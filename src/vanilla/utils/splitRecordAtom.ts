@@ -0,0 +1,220 @@
+import { atom } from '../../vanilla.ts'
+import type {
+  Atom,
+  Getter,
+  PrimitiveAtom,
+  SetStateAction,
+  Setter,
+  WritableAtom,
+} from '../../vanilla.ts'
+
+const cache1 = new WeakMap()
+const memo1 = <T>(create: () => T, dep1: object): T =>
+  (cache1.has(dep1) ? cache1 : cache1.set(dep1, create())).get(dep1)
+
+const isWritable = <Value, Args extends unknown[], Result>(
+  atom: Atom<Value> | WritableAtom<Value, Args, Result>,
+): atom is WritableAtom<Value, Args, Result> =>
+  !!(atom as WritableAtom<Value, Args, Result>).write
+
+const isFunction = <T>(x: T): x is T & ((...args: never[]) => unknown) =>
+  typeof x === 'function'
+
+type SplitRecordAtomAction<Key, Item> =
+  | { type: 'insert'; key: Key; value: Item }
+  | { type: 'remove'; key: Key }
+  | { type: 'rename'; key: Key; newKey: Key }
+
+type Collection = Map<unknown, unknown> | Record<string, unknown>
+
+const isMap = (c: Collection): c is Map<unknown, unknown> => c instanceof Map
+
+const getEntries = (c: Collection): [unknown, unknown][] =>
+  isMap(c) ? Array.from(c) : Object.entries(c)
+
+const hasKey = (c: Collection, key: unknown) =>
+  isMap(c) ? c.has(key) : Object.prototype.hasOwnProperty.call(c, key as string)
+
+const getValue = (c: Collection, key: unknown) =>
+  isMap(c) ? c.get(key) : c[key as string]
+
+// Creates a collection of the same kind
+const fromEntries = (c: Collection, entries: Iterable<[unknown, unknown]>) =>
+  isMap(c) ? new Map(entries) : Object.fromEntries(entries)
+
+export function splitRecordAtom<Key, Item>(
+  mapAtom: WritableAtom<Map<Key, Item>, [Map<Key, Item>], void>,
+): WritableAtom<
+  Map<Key, PrimitiveAtom<Item>>,
+  [SplitRecordAtomAction<Key, Item>],
+  void
+>
+
+export function splitRecordAtom<Key, Item>(
+  mapAtom: Atom<Map<Key, Item>>,
+): Atom<Map<Key, Atom<Item>>>
+
+export function splitRecordAtom<Item>(
+  recordAtom: WritableAtom<Record<string, Item>, [Record<string, Item>], void>,
+): WritableAtom<
+  Record<string, PrimitiveAtom<Item>>,
+  [SplitRecordAtomAction<string, Item>],
+  void
+>
+
+export function splitRecordAtom<Item>(
+  recordAtom: Atom<Record<string, Item>>,
+): Atom<Record<string, Atom<Item>>>
+
+/**
+ * Splits an atom of a record or a Map into an atom per key.
+ * Atoms of unchanged keys keep their identity across updates.
+ */
+export function splitRecordAtom(
+  collectionAtom:
+    | WritableAtom<Collection, [Collection], void>
+    | Atom<Collection>,
+) {
+  return memo1(() => {
+    type ItemAtom = PrimitiveAtom<unknown> | Atom<unknown>
+    type Mapping = {
+      collection: Collection
+      atoms: Map<unknown, ItemAtom>
+      result: Map<unknown, ItemAtom> | Record<string, ItemAtom>
+    }
+    const setCollection = (set: Setter, collection: Collection) =>
+      set(
+        collectionAtom as WritableAtom<Collection, [Collection], void>,
+        collection,
+      )
+    const createItemAtom = (key: unknown, collection: Collection) => {
+      const read = (get: Getter) => {
+        const curr = get(collectionAtom)
+        if (hasKey(curr, key)) {
+          return getValue(curr, key)
+        }
+        // returning a stale value, like splitAtom
+        if (hasKey(collection, key)) {
+          return getValue(collection, key)
+        }
+        throw new Error('splitRecordAtom: key not found for read')
+      }
+      const write = (
+        get: Getter,
+        set: Setter,
+        update: SetStateAction<unknown>,
+      ) => {
+        const curr = get(collectionAtom)
+        if (!hasKey(curr, key)) {
+          throw new Error('splitRecordAtom: key not found for write')
+        }
+        const prevValue = getValue(curr, key)
+        const nextValue = isFunction(update)
+          ? (update as (prev: unknown) => unknown)(prevValue)
+          : update
+        if (!Object.is(prevValue, nextValue)) {
+          setCollection(
+            set,
+            fromEntries(
+              curr,
+              getEntries(curr).map(([k, v]) => [k, k === key ? nextValue : v]),
+            ),
+          )
+        }
+      }
+      return isWritable(collectionAtom) ? atom(read, write) : atom(read)
+    }
+    const mappingCache = new WeakMap<Collection, Mapping>()
+    const getMapping = (collection: Collection, prev?: Collection) => {
+      let mapping = mappingCache.get(collection)
+      if (mapping) {
+        return mapping
+      }
+      const prevMapping = prev && mappingCache.get(prev)
+      const atoms = new Map<unknown, ItemAtom>()
+      for (const [key] of getEntries(collection)) {
+        atoms.set(
+          key,
+          prevMapping?.atoms.get(key) ?? createItemAtom(key, collection),
+        )
+      }
+      const prevKeys = prevMapping && Array.from(prevMapping.atoms.keys())
+      if (
+        prevKeys &&
+        prevKeys.length === atoms.size &&
+        Array.from(atoms.keys()).every((key, i) => key === prevKeys[i])
+      ) {
+        // not changed
+        mapping = prevMapping
+      } else {
+        mapping = {
+          collection,
+          atoms,
+          result: fromEntries(collection, atoms) as Mapping['result'],
+        }
+      }
+      mappingCache.set(collection, mapping)
+      return mapping
+    }
+    const mappingAtom: Atom<Mapping> & {
+      init?: undefined
+    } = atom((get) => {
+      const prev = get(mappingAtom) as Mapping | undefined
+      return getMapping(get(collectionAtom), prev?.collection)
+    })
+
+    if (import.meta.env?.MODE !== 'production') {
+      mappingAtom.debugPrivate = true
+    }
+
+    // HACK to read mapping atom before initialization
+    mappingAtom.init = undefined
+    return isWritable(collectionAtom)
+      ? atom(
+          (get) => get(mappingAtom).result,
+          (get, set, action: SplitRecordAtomAction<unknown, unknown>) => {
+            const curr = get(collectionAtom)
+            const entries = getEntries(curr)
+            switch (action.type) {
+              case 'insert': {
+                setCollection(
+                  set,
+                  fromEntries(curr, [...entries, [action.key, action.value]]),
+                )
+                break
+              }
+              case 'remove': {
+                if (hasKey(curr, action.key)) {
+                  setCollection(
+                    set,
+                    fromEntries(
+                      curr,
+                      entries.filter(([k]) => k !== action.key),
+                    ),
+                  )
+                }
+                break
+              }
+              case 'rename': {
+                if (hasKey(curr, action.key) && action.key !== action.newKey) {
+                  setCollection(
+                    set,
+                    fromEntries(
+                      curr,
+                      entries
+                        .filter(([k]) => k !== action.newKey)
+                        .map(([k, v]) => [
+                          k === action.key ? action.newKey : k,
+                          v,
+                        ]),
+                    ),
+                  )
+                }
+                break
+              }
+            }
+          },
+        )
+      : atom((get) => get(mappingAtom).result) // read-only atom
+  }, collectionAtom)
+}
@@ -1,7 +1,7 @@
 import { StrictMode } from 'react'
-import { render, screen, waitFor } from '@testing-library/react'
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
 import { it } from 'vitest'
-import { Provider, useAtom } from 'jotai/react'
+import { Provider, ScopeProvider, useAtom } from 'jotai/react'
 import { atom, createStore } from 'jotai/vanilla'
 
 it('uses initial values from provider', async () => {
@@ -78,3 +78,46 @@ it('renders correctly without children', () => {
     </StrictMode>,
   )
 })
+
+it('scopes atoms with ScopeProvider', async () => {
+  const countAtom = atom(0)
+  const petAtom = atom('cat')
+
+  const Display = ({ name }: { name: string }) => {
+    const [count, setCount] = useAtom(countAtom)
+    const [pet, setPet] = useAtom(petAtom)
+
+    return (
+      <>
+        <p>
+          {name} count: {count}, pet: {pet}
+        </p>
+        <button onClick={() => setCount((c) => c + 1)}>{name} inc</button>
+        <button onClick={() => setPet('dog')}>{name} dog</button>
+      </>
+    )
+  }
+
+  render(
+    <StrictMode>
+      <Provider>
+        <Display name="parent" />
+        <ScopeProvider atoms={[countAtom]}>
+          <Display name="scoped" />
+        </ScopeProvider>
+      </Provider>
+    </StrictMode>,
+  )
+
+  fireEvent.click(screen.getByText('scoped inc'))
+  await waitFor(() => {
+    screen.getByText('parent count: 0, pet: cat')
+    screen.getByText('scoped count: 1, pet: cat')
+  })
+
+  fireEvent.click(screen.getByText('scoped dog'))
+  await waitFor(() => {
+    screen.getByText('parent count: 0, pet: dog')
+    screen.getByText('scoped count: 1, pet: dog')
+  })
+})
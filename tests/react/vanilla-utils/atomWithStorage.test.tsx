@@ -1,13 +1,23 @@
 import { StrictMode, Suspense } from 'react'
 import { act, fireEvent, render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
 import { useAtom } from 'jotai/react'
 import { atom, createStore } from 'jotai/vanilla'
 import {
   RESET,
   atomWithStorage,
   createJSONStorage,
+  flushStorage,
   unstable_withStorageValidator as withStorageValidator,
 } from 'jotai/vanilla/utils'
 import type { SyncStringStorage } from 'jotai/vanilla/utils/atomWithStorage'
@@ -745,3 +755,196 @@ describe('with subscribe method in string storage', () => {
     // expect(storageData.count).toBe('11')
   })
 })
+
+describe('atomWithStorage (with version)', () => {
+  const createStringStorage = (data: Record<string, string>) => ({
+    getItem: (key: string) => data[key] ?? null,
+    setItem: (key: string, newValue: string) => {
+      data[key] = newValue
+    },
+    removeItem: (key: string) => {
+      delete data[key]
+    },
+  })
+
+  it('stores values with the version', () => {
+    const data: Record<string, string> = {}
+    const storage = createJSONStorage<number>(() => createStringStorage(data))
+    const store = createStore()
+    const countAtom = atomWithStorage('count', 1, storage, { version: 2 })
+    store.sub(countAtom, () => {})
+    expect(store.get(countAtom)).toBe(1)
+    store.set(countAtom, 2)
+    expect(JSON.parse(data.count!)).toEqual({ v: 2, data: 2 })
+    store.set(countAtom, RESET)
+    expect(data.count).toBeUndefined()
+  })
+
+  it('migrates unversioned values and writes them back', () => {
+    const data: Record<string, string> = {
+      settings: JSON.stringify({ dark: true }),
+    }
+    const storage = createJSONStorage<{ theme: string; fontSize: number }>(() =>
+      createStringStorage(data),
+    )
+    const migrate = vi.fn((oldValue: any, oldVersion: number) => {
+      if (oldVersion === 0) {
+        return { theme: oldValue.dark ? 'dark' : 'light' }
+      }
+      return { ...oldValue, fontSize: 14 }
+    })
+    const store = createStore()
+    const settingsAtom = atomWithStorage(
+      'settings',
+      { theme: 'light', fontSize: 12 },
+      storage,
+      { version: 2, migrate, getOnInit: true },
+    )
+    expect(store.get(settingsAtom)).toEqual({ theme: 'dark', fontSize: 14 })
+    expect(migrate).toHaveBeenCalledTimes(2)
+    expect(JSON.parse(data.settings!)).toEqual({
+      v: 2,
+      data: { theme: 'dark', fontSize: 14 },
+    })
+  })
+
+  it('uses the initial value for newer versions', () => {
+    const data: Record<string, string> = {
+      count: JSON.stringify({ v: 3, data: 'three' }),
+    }
+    const storage = createJSONStorage<number>(() => createStringStorage(data))
+    const store = createStore()
+    const countAtom = atomWithStorage('count', 1, storage, {
+      version: 2,
+      getOnInit: true,
+    })
+    expect(store.get(countAtom)).toBe(1)
+    expect(JSON.parse(data.count!)).toEqual({ v: 3, data: 'three' })
+  })
+
+  it('migrates async storage values', async () => {
+    const data: Record<string, string> = { count: '1' }
+    const stringStorage = createStringStorage(data)
+    const storage = createJSONStorage<number>(() => ({
+      getItem: async (key: string) => stringStorage.getItem(key),
+      setItem: async (key: string, newValue: string) =>
+        stringStorage.setItem(key, newValue),
+      removeItem: async (key: string) => stringStorage.removeItem(key),
+    }))
+    const store = createStore()
+    const countAtom = atomWithStorage('count', 0, storage, {
+      version: 1,
+      migrate: (oldValue) => (oldValue as number) * 10,
+      getOnInit: true,
+    })
+    expect(await store.get(countAtom)).toBe(10)
+    await waitFor(() => {
+      expect(JSON.parse(data.count!)).toEqual({ v: 1, data: 10 })
+    })
+  })
+
+  it('validates values after they are unwrapped', () => {
+    const data: Record<string, string> = {
+      count: JSON.stringify({ v: 1, data: 5 }),
+      other: JSON.stringify({ v: 1, data: 'five' }),
+    }
+    const isNumber = (v: unknown): v is number => typeof v === 'number'
+    const storage = withStorageValidator(isNumber)(
+      createJSONStorage(() => createStringStorage(data)),
+    )
+    const store = createStore()
+    const countAtom = atomWithStorage('count', 0, storage, {
+      version: 1,
+      getOnInit: true,
+    })
+    const otherAtom = atomWithStorage('other', 0, storage, {
+      version: 1,
+      getOnInit: true,
+    })
+    expect(store.get(countAtom)).toBe(5)
+    expect(store.get(otherAtom)).toBe(0)
+  })
+})
+
+describe('atomWithStorage (with deferred writes)', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const createStorage = () => {
+    const data: Record<string, number> = {}
+    const storage = {
+      getItem: (key: string, initialValue: number) => data[key] ?? initialValue,
+      setItem: vi.fn((key: string, newValue: number) => {
+        data[key] = newValue
+      }),
+      removeItem: vi.fn((key: string) => {
+        delete data[key]
+      }),
+    }
+    return [data, storage] as const
+  }
+
+  it('debounces writes with writeDelay', () => {
+    const [data, storage] = createStorage()
+    const store = createStore()
+    const countAtom = atomWithStorage('count', 0, storage, { writeDelay: 100 })
+    store.set(countAtom, 1)
+    vi.advanceTimersByTime(50)
+    store.set(countAtom, 2)
+    expect(store.get(countAtom)).toBe(2)
+    vi.advanceTimersByTime(50)
+    expect(storage.setItem).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(50)
+    expect(storage.setItem).toHaveBeenCalledTimes(1)
+    expect(data.count).toBe(2)
+    store.set(countAtom, RESET)
+    expect(storage.removeItem).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(100)
+    expect(data.count).toBeUndefined()
+  })
+
+  it('throttles writes', () => {
+    const [data, storage] = createStorage()
+    const store = createStore()
+    const countAtom = atomWithStorage('count', 0, storage, { throttle: 100 })
+    for (let i = 1; i <= 5; ++i) {
+      store.set(countAtom, i)
+      vi.advanceTimersByTime(30)
+    }
+    // written at 0ms and 100ms
+    expect(storage.setItem).toHaveBeenCalledTimes(2)
+    expect(data.count).toBe(4)
+    vi.advanceTimersByTime(100)
+    expect(storage.setItem).toHaveBeenCalledTimes(3)
+    expect(data.count).toBe(5)
+  })
+
+  it('flushes pending writes on unmount and with flushStorage', () => {
+    const [data, storage] = createStorage()
+    const store = createStore()
+    const countAtom = atomWithStorage('count', 0, storage, { writeDelay: 100 })
+    const unsub = store.sub(countAtom, () => {})
+    store.set(countAtom, 1)
+    unsub()
+    expect(data.count).toBe(1)
+    store.set(countAtom, 2)
+    flushStorage()
+    expect(data.count).toBe(2)
+    expect(storage.setItem).toHaveBeenCalledTimes(2)
+    vi.advanceTimersByTime(100)
+    expect(storage.setItem).toHaveBeenCalledTimes(2)
+  })
+
+  it('flushes pending writes before unload', () => {
+    const [data, storage] = createStorage()
+    const store = createStore()
+    const countAtom = atomWithStorage('count', 0, storage, { writeDelay: 100 })
+    store.set(countAtom, 1)
+    window.dispatchEvent(new Event('beforeunload'))
+    expect(data.count).toBe(1)
+  })
+})
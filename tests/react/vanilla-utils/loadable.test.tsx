@@ -1,9 +1,9 @@
 import { StrictMode, Suspense, version as reactVersion, useEffect } from 'react'
 import { render, screen } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { expect, it, vi } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
 import { useAtomValue, useSetAtom } from 'jotai/react'
-import { atom } from 'jotai/vanilla'
+import { atom, createStore } from 'jotai/vanilla'
 import type { Atom } from 'jotai/vanilla'
 import { loadable } from 'jotai/vanilla/utils'
 
@@ -278,6 +278,76 @@ it('should handle sync error (#1843)', async () => {
   await screen.findByText('Error: thrown in syncAtom')
 })
 
+describe('loadable with keepPrevious', () => {
+  it('keeps the previous data while refreshing', async () => {
+    const store = createStore()
+    const countAtom = atom(0)
+    const resolves: (() => void)[] = []
+    const asyncAtom = atom((get) => {
+      const count = get(countAtom)
+      return new Promise<number>((r) => resolves.push(() => r(count)))
+    })
+    const loadableAtom = loadable(asyncAtom, { keepPrevious: true })
+    store.sub(loadableAtom, () => {})
+    expect(store.get(loadableAtom)).toEqual({ state: 'loading' })
+    resolves.shift()!()
+    await vi.waitFor(() =>
+      expect(store.get(loadableAtom)).toEqual({
+        state: 'hasData',
+        data: 0,
+        isRefreshing: false,
+      }),
+    )
+    store.set(countAtom, 1)
+    expect(store.get(loadableAtom)).toEqual({
+      state: 'hasData',
+      data: 0,
+      isRefreshing: true,
+    })
+    resolves.shift()!()
+    await vi.waitFor(() =>
+      expect(store.get(loadableAtom)).toEqual({
+        state: 'hasData',
+        data: 1,
+        isRefreshing: false,
+      }),
+    )
+  })
+
+  it('keeps the previous data with errors', async () => {
+    const store = createStore()
+    const countAtom = atom(0)
+    const asyncAtom = atom(async (get) => {
+      const count = get(countAtom)
+      if (count === 1) {
+        throw new Error('failed')
+      }
+      return count
+    })
+    const loadableAtom = loadable(asyncAtom, { keepPrevious: true })
+    const listener = vi.fn()
+    store.sub(loadableAtom, listener)
+    await vi.waitFor(() =>
+      expect(store.get(loadableAtom)).toMatchObject({ data: 0 }),
+    )
+    store.set(countAtom, 1)
+    await vi.waitFor(() =>
+      expect(store.get(loadableAtom)).toEqual({
+        state: 'hasError',
+        error: new Error('failed'),
+        previous: 0,
+      }),
+    )
+    store.set(countAtom, 2)
+    expect(store.get(loadableAtom)).toEqual({ state: 'loading', previous: 0 })
+    await vi.waitFor(() =>
+      expect(store.get(loadableAtom)).toMatchObject({ data: 2 }),
+    )
+    // hasData, refreshing, hasError, loading, hasData
+    expect(listener).toHaveBeenCalledTimes(5)
+  })
+})
+
 type LoadableComponentProps = {
   asyncAtom: Atom<Promise<number> | Promise<string> | string | number>
   effectCallback?: (loadableValue: any) => void
@@ -1,4 +1,4 @@
-import { expect, it } from 'vitest'
+import { expect, it, vi } from 'vitest'
 import { atom } from 'jotai/vanilla'
 
 it('creates atoms', () => {
@@ -70,3 +70,54 @@ it('should let users mark atoms as private', () => {
     }
   `)
 })
+
+it('creates atoms with keys', () => {
+  const countAtom = atom(0, { key: 'count' })
+  const doubledCountAtom = atom((get) => get(countAtom) * 2, {
+    key: 'doubled',
+  })
+  const decrementCountAtom = atom(
+    null,
+    (get, set) => {
+      set(countAtom, get(countAtom) - 1)
+    },
+    { key: 'decrement' },
+  )
+  delete countAtom.debugLabel
+  expect(countAtom.key).toBe('count')
+  expect(String(countAtom)).toBe('count')
+  expect(doubledCountAtom.key).toBe('doubled')
+  expect(decrementCountAtom.key).toBe('decrement')
+  expect('key' in atom(0)).toBe(false)
+})
+
+it('[DEV-ONLY] warns about duplicate keys', () => {
+  const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+  const firstAtom = atom(0, { key: 'duplicate' })
+  expect(warn).not.toHaveBeenCalled()
+  const secondAtom = atom(1, { key: 'duplicate' })
+  expect(warn).toHaveBeenCalledTimes(1)
+  expect(firstAtom).not.toBe(secondAtom)
+  warn.mockRestore()
+})
+
+it('[DEV-ONLY] does not warn about keys of re-evaluated atoms', () => {
+  const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+  // like a module evaluated again on hot reload
+  const defineAtom = () => atom(0, { key: 'reloaded' })
+  const [firstAtom, secondAtom] = [0, 1].map(() => defineAtom())
+  expect(warn).not.toHaveBeenCalled()
+  expect(firstAtom).not.toBe(secondAtom)
+  warn.mockRestore()
+})
+
+it('[DEV-ONLY] warns about duplicate keys of atoms created by a helper', () => {
+  const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+  const makeCartAtom = () => atom([], { key: 'cart/items' })
+  const firstAtom = makeCartAtom()
+  expect(warn).not.toHaveBeenCalled()
+  const secondAtom = makeCartAtom()
+  expect(warn).toHaveBeenCalledTimes(1)
+  expect(firstAtom).not.toBe(secondAtom)
+  warn.mockRestore()
+})
@@ -2,9 +2,6 @@ import { expect, it, vi } from 'vitest'
 import type { Atom, Getter, Setter, WritableAtom } from 'jotai/vanilla'
 import { atom, createStore } from 'jotai/vanilla'
 
-type Store = ReturnType<typeof createStore>
-type GetAtomState = Parameters<Parameters<Store['unstable_derive']>[0]>[0]
-type AtomState = NonNullable<ReturnType<GetAtomState>>
 type AnyAtom = Atom<unknown>
 
 type Cleanup = () => void
@@ -59,79 +56,30 @@ function syncEffect(effect: Effect): Atom<void> {
         deps.forEach(ref.get!)
       }
     }
-    const internalAtomState = getAtomState(store, internalAtom)
-    const originalMountHook = internalAtomState.h
-    internalAtomState.h = () => {
-      originalMountHook?.()
-      if (internalAtomState.m) {
-        // mount
-        store.set(refreshAtom, (v) => v + 1)
-      } else {
-        // unmount
-        const syncEffectChannel = ensureSyncEffectChannel(store)
-        syncEffectChannel.add(() => {
-          ref.cleanup?.()
-          delete ref.cleanup
-        })
-      }
-    }
-    const originalUpdateHook = internalAtomState.u
-    internalAtomState.u = () => {
-      originalUpdateHook?.()
-      // update
-      const syncEffectChannel = ensureSyncEffectChannel(store)
-      syncEffectChannel.add(runEffect)
-    }
+    const pending = new Set<() => void>()
+    store.hooks.mount.add(internalAtom, () => {
+      store.set(refreshAtom, (v) => v + 1)
+    })
+    store.hooks.unmount.add(internalAtom, () => {
+      pending.add(() => {
+        ref.cleanup?.()
+        delete ref.cleanup
+      })
+    })
+    store.hooks.change.add(internalAtom, () => {
+      pending.add(runEffect)
+    })
+    store.hooks.flush.add(() => {
+      const fns = Array.from(pending)
+      pending.clear()
+      fns.forEach((fn) => fn())
+    })
   }
   return atom((get) => {
     get(internalAtom)
   })
 }
 
-const INTERNAL_flushStoreHook = Symbol.for('JOTAI.EXPERIMENTAL.FLUSHSTOREHOOK')
-const syncEffectChannelSymbol = Symbol()
-
-function ensureSyncEffectChannel(store: any) {
-  if (!store[syncEffectChannelSymbol]) {
-    store[syncEffectChannelSymbol] = new Set<() => void>()
-    const originalFlushHook = store[INTERNAL_flushStoreHook]
-    store[INTERNAL_flushStoreHook] = () => {
-      originalFlushHook?.()
-      const syncEffectChannel = store[syncEffectChannelSymbol] as Set<
-        () => void
-      >
-      const fns = Array.from(syncEffectChannel)
-      syncEffectChannel.clear()
-      fns.forEach((fn: () => void) => fn())
-    }
-  }
-  return store[syncEffectChannelSymbol] as Set<() => void>
-}
-
-const getAtomStateMap = new WeakMap<Store, GetAtomState>()
-
-/**
- * HACK: steal atomState to synchronously determine if
- * the atom is mounted
- * We return null to cause the buildStore(...args) to throw
- * to abort creating a derived store
- */
-function getAtomState(store: Store, atom: AnyAtom): AtomState {
-  let getAtomStateFn = getAtomStateMap.get(store)
-  if (!getAtomStateFn) {
-    try {
-      store.unstable_derive((...storeArgs) => {
-        getAtomStateFn = storeArgs[0]
-        return null as any
-      })
-    } catch {
-      // expect error
-    }
-    getAtomStateMap.set(store, getAtomStateFn!)
-  }
-  return getAtomStateFn!(atom)!
-}
-
 it('fires after recomputeDependents and before atom listeners', async function test() {
   const store = createStore()
   const a = atom({} as { v?: number })
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { deepEqual, shallowEqual } from 'jotai/vanilla'
+
+describe('shallowEqual', () => {
+  it('compares primitives with Object.is', () => {
+    expect(shallowEqual(1, 1)).toBe(true)
+    expect(shallowEqual(NaN, NaN)).toBe(true)
+    expect(shallowEqual(0, -0)).toBe(false)
+    expect(shallowEqual<unknown>(null, {})).toBe(false)
+  })
+
+  it('compares objects one level deep', () => {
+    const nested = { c: 1 }
+    expect(shallowEqual({ a: 1, b: nested }, { a: 1, b: nested })).toBe(true)
+    expect(shallowEqual({ a: 1, b: { c: 1 } }, { a: 1, b: { c: 1 } })).toBe(
+      false,
+    )
+    expect(shallowEqual<object>({ a: 1 }, { a: 1, b: 2 })).toBe(false)
+    expect(shallowEqual<unknown>([1], { 0: 1 })).toBe(false)
+  })
+
+  it('compares arrays, maps and sets by entries', () => {
+    expect(shallowEqual([1, 2], [1, 2])).toBe(true)
+    expect(shallowEqual([1, 2], [1, 2, 3])).toBe(false)
+    expect(shallowEqual(new Map([['a', 1]]), new Map([['a', 1]]))).toBe(true)
+    expect(shallowEqual(new Map([['a', 1]]), new Map([['a', 2]]))).toBe(false)
+    expect(shallowEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true)
+    expect(shallowEqual(new Set([1]), new Set([2]))).toBe(false)
+  })
+})
+
+describe('deepEqual', () => {
+  it('compares nested values', () => {
+    expect(
+      deepEqual(
+        { a: [1, { b: new Date(0) }], c: new Map([['d', { e: 1 }]]) },
+        { a: [1, { b: new Date(0) }], c: new Map([['d', { e: 1 }]]) },
+      ),
+    ).toBe(true)
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false)
+    expect(deepEqual(new Date(0), new Date(1))).toBe(false)
+  })
+})
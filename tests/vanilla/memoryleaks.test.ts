@@ -133,3 +133,14 @@ describe('memory leaks (with dependencies)', () => {
     expect(await detector.isLeaking()).toBe(false)
   })
 })
+
+describe('memory leaks (with eviction policy)', () => {
+  it('does not hold atoms that are only read with unmountDelay', async () => {
+    const store = createStore({ evict: { unmountDelay: 10 } })
+    let objAtom: Atom<object> | undefined = atom({})
+    const detector = new LeakDetector(objAtom)
+    store.get(objAtom)
+    objAtom = undefined
+    expect(await detector.isLeaking()).toBe(false)
+  })
+})
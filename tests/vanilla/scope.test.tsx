@@ -0,0 +1,204 @@
+import { describe, expect, it, vi } from 'vitest'
+import { atom, createScopedStore, createStore } from 'jotai/vanilla'
+import {
+  atomEffect,
+  atomWithAsync,
+  atomWithReducer,
+  loadable,
+  selectAtom,
+  splitAtom,
+  unwrap,
+} from 'jotai/vanilla/utils'
+
+describe('createScopedStore', () => {
+  it('keeps its own state of scoped atoms', () => {
+    const a = atom('a')
+    const b = atom('b')
+    const store = createStore()
+    const scopedStore = createScopedStore(store, [a])
+    scopedStore.set(a, 'a1')
+    scopedStore.set(b, 'b1')
+    expect(store.get(a)).toBe('a')
+    expect(scopedStore.get(a)).toBe('a1')
+    expect(store.get(b)).toBe('b1')
+    expect(scopedStore.get(b)).toBe('b1')
+    store.set(a, 'a2')
+    expect(scopedStore.get(a)).toBe('a1')
+  })
+
+  it('scopes derived atoms depending on scoped atoms', () => {
+    const a = atom('a')
+    const b = atom('b')
+    const c = atom((get) => get(a) + get(b))
+    const store = createStore()
+    const scopedStore = createScopedStore(store, [a])
+    scopedStore.set(a, 'a1')
+    expect(store.get(c)).toBe('ab')
+    expect(scopedStore.get(c)).toBe('a1b')
+    store.set(b, 'b1')
+    expect(store.get(c)).toBe('ab1')
+    expect(scopedStore.get(c)).toBe('a1b1')
+  })
+
+  it('writes scoped atoms with derived atoms', () => {
+    const a = atom('a')
+    const b = atom(
+      (get) => get(a),
+      (_get, set, v: string) => set(a, v),
+    )
+    const store = createStore()
+    const scopedStore = createScopedStore(store, [a])
+    const storeCallback = vi.fn()
+    const scopedCallback = vi.fn()
+    store.sub(b, storeCallback)
+    scopedStore.sub(b, scopedCallback)
+    store.set(b, '*')
+    expect(store.get(b)).toBe('*')
+    expect(scopedStore.get(b)).toBe('a')
+    expect(storeCallback).toHaveBeenCalledTimes(1)
+    expect(scopedCallback).toHaveBeenCalledTimes(0)
+    scopedStore.set(b, '**')
+    expect(store.get(b)).toBe('*')
+    expect(scopedStore.get(b)).toBe('**')
+    expect(storeCallback).toHaveBeenCalledTimes(1)
+    expect(scopedCallback).toHaveBeenCalledTimes(1)
+  })
+
+  it('shares unscoped atoms with custom write functions', () => {
+    const countAtom = atomWithReducer(0, (prev, action: 'inc') =>
+      action === 'inc' ? prev + 1 : prev,
+    )
+    const scopedAtom = atom(0)
+    const incAtom = atom(null, (_get, set) => {
+      set(countAtom, 'inc')
+      set(scopedAtom, (c) => c + 1)
+    })
+    const store = createStore()
+    const scopedStore = createScopedStore(store, [scopedAtom])
+    const listener = vi.fn()
+    store.sub(countAtom, listener)
+    scopedStore.set(incAtom)
+    expect(store.get(countAtom)).toBe(1)
+    expect(scopedStore.get(countAtom)).toBe(1)
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(store.get(scopedAtom)).toBe(0)
+    expect(scopedStore.get(scopedAtom)).toBe(1)
+  })
+
+  it('mounts scoped atoms in the scoped store', () => {
+    const a = atom('a')
+    a.onMount = (setSelf) => setSelf((v) => v + ':mounted')
+    const store = createStore()
+    const scopedStore = createScopedStore(store, [a])
+    scopedStore.sub(a, () => {})
+    expect(store.get(a)).toBe('a')
+    expect(scopedStore.get(a)).toBe('a:mounted')
+  })
+
+  it('passes the scoped store to the atom initializer', () => {
+    const a = atom(0)
+    const onInit = vi.fn()
+    a.unstable_onInit = onInit
+    const store = createStore()
+    const scopedStore = createScopedStore(store, [a])
+    scopedStore.get(a)
+    expect(onInit).toHaveBeenCalledWith(scopedStore)
+  })
+
+  it('runs effects with scoped atoms', () => {
+    const a = atom(0)
+    const values: number[] = []
+    const effectAtom = atomEffect((get) => {
+      values.push(get(a))
+    })
+    const store = createStore()
+    const scopedStore = createScopedStore(store, [a])
+    scopedStore.sub(effectAtom, () => {})
+    store.set(a, 1)
+    scopedStore.set(a, 2)
+    expect(values).toEqual([0, 2])
+  })
+
+  it('supports nested scopes', () => {
+    const a = atom('a')
+    const b = atom('b')
+    const c = atom((get) => get(a) + get(b))
+    const store = createStore()
+    const scopedStore1 = createScopedStore(store, [a])
+    const scopedStore2 = createScopedStore(scopedStore1, [b])
+    scopedStore1.set(a, 'a1')
+    scopedStore1.set(b, 'b1')
+    scopedStore2.set(b, 'b2')
+    expect(store.get(c)).toBe('ab1')
+    expect(scopedStore1.get(c)).toBe('a1b1')
+    expect(scopedStore2.get(c)).toBe('a1b2')
+  })
+
+  it('scopes utilities depending on scoped atoms', () => {
+    const a = atom({ n: 1 })
+    const arr = atom([1, 2])
+    const store = createStore()
+    const scopedStore = createScopedStore(store, [a, arr])
+    const selectedAtom = selectAtom(a, (v) => v.n)
+    const splittedAtom = splitAtom(arr)
+    expect(scopedStore.get(selectedAtom)).toBe(1)
+    expect(scopedStore.get(splittedAtom).length).toBe(2)
+    scopedStore.set(a, { n: 42 })
+    scopedStore.set(arr, [7, 8, 9])
+    expect(scopedStore.get(selectedAtom)).toBe(42)
+    expect(scopedStore.get(splittedAtom).length).toBe(3)
+    expect(store.get(selectedAtom)).toBe(1)
+    expect(store.get(splittedAtom).length).toBe(2)
+  })
+
+  it('scopes async utilities depending on scoped atoms', async () => {
+    const a = atom(1)
+    const asyncAtom = atom(async (get) => get(a) * 2)
+    const asyncWithRetryAtom = atomWithAsync(async (get) => get(a) * 3)
+    const store = createStore()
+    const scopedStore = createScopedStore(store, [a])
+    scopedStore.set(a, 2)
+    scopedStore.sub(loadable(asyncAtom), () => {})
+    scopedStore.sub(unwrap(asyncAtom), () => {})
+    scopedStore.sub(asyncWithRetryAtom, () => {})
+    await new Promise((r) => setTimeout(r))
+    expect(scopedStore.get(loadable(asyncAtom))).toEqual({
+      state: 'hasData',
+      data: 4,
+    })
+    expect(scopedStore.get(unwrap(asyncAtom))).toBe(4)
+    expect(scopedStore.get(asyncWithRetryAtom)).toBe(6)
+    expect(await store.get(asyncAtom)).toBe(2)
+  })
+
+  it('shares derived atoms not depending on scoped atoms', () => {
+    const a = atom(0)
+    const b = atom(0)
+    const read = vi.fn((get: (a: typeof b) => number) => get(b) * 2)
+    const c = atom(read, () => {})
+    const onMount = vi.fn()
+    c.onMount = onMount
+    const store = createStore()
+    const scopedStore = createScopedStore(store, [a])
+    store.sub(c, () => {})
+    scopedStore.sub(c, () => {})
+    store.set(b, 1)
+    expect(scopedStore.get(c)).toBe(2)
+    expect(read).toHaveBeenCalledTimes(2)
+    expect(onMount).toHaveBeenCalledTimes(1)
+  })
+
+  it('scopes derived atoms once they depend on scoped atoms', () => {
+    const a = atom('a')
+    const isScopedAtom = atom(false)
+    const b = atom((get) => (get(isScopedAtom) ? get(a) : 'b'))
+    const store = createStore()
+    const scopedStore = createScopedStore(store, [a])
+    scopedStore.set(a, 'a1')
+    scopedStore.sub(b, () => {})
+    expect(scopedStore.get(b)).toBe('b')
+    store.set(isScopedAtom, true)
+    expect(store.get(b)).toBe('a')
+    expect(scopedStore.get(b)).toBe('a1')
+  })
+})
@@ -1,6 +1,12 @@
 import { waitFor } from '@testing-library/react'
 import { assert, describe, expect, it, vi } from 'vitest'
-import { atom, createStore } from 'jotai/vanilla'
+import {
+  AtomCycleError,
+  atom,
+  createStore,
+  inspectStore,
+  shallowEqual,
+} from 'jotai/vanilla'
 import type { Atom, Getter, PrimitiveAtom } from 'jotai/vanilla'
 
 it('should not fire on subscribe', async () => {
@@ -1209,3 +1215,599 @@ it('allows subcribing to atoms during mount', () => {
   store.sub(a, () => {})
   expect(bMounted).toBe(true)
 })
+
+describe('transaction', () => {
+  it('notifies listeners once after committing', () => {
+    const store = createStore()
+    const a = atom(0)
+    const b = atom(0)
+    const sum = atom((get) => get(a) + get(b))
+    const sumCallback = vi.fn(() => store.get(sum))
+    store.sub(sum, sumCallback)
+    const result = store.transaction((get, set) => {
+      set(a, 1)
+      set(b, 2)
+      expect(get(sum)).toBe(3)
+      expect(sumCallback).not.toHaveBeenCalled()
+      return 'done'
+    })
+    expect(result).toBe('done')
+    expect(sumCallback).toHaveBeenCalledTimes(1)
+    expect(sumCallback).toHaveLastReturnedWith(3)
+  })
+
+  it('restores atom states if the transaction throws', () => {
+    const store = createStore()
+    const a = atom(0)
+    const b = atom(0)
+    const sum = atom((get) => get(a) + get(b))
+    const aCallback = vi.fn()
+    const sumCallback = vi.fn()
+    store.sub(a, aCallback)
+    store.sub(sum, sumCallback)
+    const error = new Error('validation failed')
+    expect(() =>
+      store.transaction((get, set) => {
+        set(a, 1)
+        set(b, 2)
+        expect(get(sum)).toBe(3)
+        throw error
+      }),
+    ).toThrow(error)
+    expect(store.get(a)).toBe(0)
+    expect(store.get(b)).toBe(0)
+    expect(store.get(sum)).toBe(0)
+    expect(aCallback).not.toHaveBeenCalled()
+    expect(sumCallback).not.toHaveBeenCalled()
+    store.set(b, 3)
+    expect(store.get(sum)).toBe(3)
+    expect(sumCallback).toHaveBeenCalledTimes(1)
+  })
+
+  it('restores writes of derived atoms', () => {
+    const store = createStore()
+    const a = atom(0)
+    const b = atom(0)
+    const save = atom(null, (_get, set, value: number) => {
+      set(a, value)
+      if (value < 0) {
+        throw new Error('negative')
+      }
+      set(b, value)
+    })
+    store.set(save, 1)
+    expect(() => store.transaction((_get, set) => set(save, -1))).toThrow(
+      'negative',
+    )
+    expect(store.get(a)).toBe(1)
+    expect(store.get(b)).toBe(1)
+  })
+
+  it('does not abort pending promises that are restored', async () => {
+    const store = createStore()
+    const idAtom = atom(1)
+    const resolves: (() => void)[] = []
+    const signals: AbortSignal[] = []
+    const asyncAtom = atom(async (get, { signal }) => {
+      signals.push(signal)
+      const id = get(idAtom)
+      await new Promise<void>((r) => resolves.push(r))
+      if (signal.aborted) {
+        throw new Error('aborted')
+      }
+      return id
+    })
+    store.sub(asyncAtom, () => {})
+    const promise = store.get(asyncAtom)
+    expect(() =>
+      store.transaction((_get, set) => {
+        set(idAtom, 2)
+        throw new Error('validation failed')
+      }),
+    ).toThrow('validation failed')
+    expect(store.get(asyncAtom)).toBe(promise)
+    expect(signals.map((signal) => signal.aborted)).toEqual([false, true])
+    resolves.forEach((resolve) => resolve())
+    await expect(store.get(asyncAtom)).resolves.toBe(1)
+  })
+
+  it('rolls back only the inner transaction', () => {
+    const store = createStore()
+    const a = atom(0)
+    const b = atom(0)
+    const callback = vi.fn()
+    store.sub(a, callback)
+    store.sub(b, callback)
+    store.transaction((_get, set) => {
+      set(a, 1)
+      try {
+        store.transaction(() => {
+          set(a, 2)
+          set(b, 2)
+          throw new Error()
+        })
+      } catch {
+        // ignore
+      }
+      expect(store.get(a)).toBe(1)
+      expect(store.get(b)).toBe(0)
+    })
+    expect(store.get(a)).toBe(1)
+    expect(store.get(b)).toBe(0)
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+
+  it('can be used inside a write', () => {
+    const store = createStore()
+    const a = atom(0)
+    const b = atom(0)
+    const update = atom(null, (_get, set, value: number) => {
+      set(a, value)
+      try {
+        set.transaction!((_get, set) => {
+          set(b, value)
+          throw new Error()
+        })
+      } catch {
+        // ignore
+      }
+    })
+    const callback = vi.fn()
+    store.sub(a, callback)
+    store.sub(b, callback)
+    store.set(update, 1)
+    expect(store.get(a)).toBe(1)
+    expect(store.get(b)).toBe(0)
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+
+  it('sets the atom itself inside a write', () => {
+    const store = createStore()
+    const a = atom(0, (_get, set, value: number) => {
+      set.transaction!((_get, set) => set(a, value))
+    })
+    store.set(a, 1)
+    expect(store.get(a)).toBe(1)
+  })
+})
+
+describe('store hooks', () => {
+  it('fires init and read events', () => {
+    const store = createStore()
+    const a = atom(1)
+    const b = atom((get) => get(a) * 2)
+    const initCallback = vi.fn()
+    const readCallback = vi.fn()
+    store.hooks.init.add(undefined, initCallback)
+    store.hooks.read.add(b, readCallback)
+    store.get(b)
+    expect(initCallback).toHaveBeenCalledTimes(2)
+    expect(initCallback).toHaveBeenCalledWith({
+      atom: a,
+      prev: undefined,
+      next: undefined,
+    })
+    expect(readCallback).toHaveBeenCalledTimes(1)
+    expect(readCallback).toHaveBeenCalledWith({
+      atom: b,
+      prev: undefined,
+      next: 2,
+    })
+    store.set(a, 2)
+    store.get(b)
+    expect(readCallback).toHaveBeenCalledTimes(2)
+    expect(readCallback).toHaveBeenLastCalledWith({ atom: b, prev: 2, next: 4 })
+  })
+
+  it('fires change events with previous and next values', () => {
+    const store = createStore()
+    const a = atom(1)
+    const b = atom((get) => get(a) * 2)
+    const events: unknown[] = []
+    store.hooks.change.add(undefined, ({ atom, prev, next }) => {
+      events.push([atom, prev, next])
+    })
+    store.sub(b, () => {})
+    store.set(a, 2)
+    expect(events).toEqual([
+      [a, 1, 2],
+      [b, 2, 4],
+    ])
+    store.set(a, 2)
+    expect(events).toHaveLength(2)
+  })
+
+  it('fires change events for rolled back atoms', () => {
+    const store = createStore()
+    const a = atom(1)
+    const b = atom((get) => get(a) * 2)
+    const events: unknown[] = []
+    store.sub(b, () => {})
+    store.hooks.change.add(undefined, ({ atom, prev, next }) => {
+      events.push([atom, prev, next])
+    })
+    expect(() =>
+      store.transaction((_get, set) => {
+        set(a, 2)
+        throw new Error()
+      }),
+    ).toThrow()
+    expect(events).toEqual([
+      [a, 1, 2],
+      [b, 2, 4],
+      [a, 2, 1],
+      [b, 4, 2],
+    ])
+  })
+
+  it('fires mount and unmount events', () => {
+    const store = createStore()
+    const a = atom(1)
+    const b = atom((get) => get(a) * 2)
+    const mounted = new Set<Atom<unknown>>()
+    store.hooks.mount.add(undefined, ({ atom }) => mounted.add(atom))
+    store.hooks.unmount.add(undefined, ({ atom }) => mounted.delete(atom))
+    const unsub = store.sub(b, () => {})
+    expect(mounted).toEqual(new Set([a, b]))
+    unsub()
+    expect(mounted).toEqual(new Set())
+  })
+
+  it('supports multiple listeners and removing them', () => {
+    const store = createStore()
+    const a = atom(1)
+    const callback1 = vi.fn()
+    const callback2 = vi.fn()
+    const flushCallback = vi.fn()
+    const remove1 = store.hooks.change.add(a, callback1)
+    store.hooks.change.add(a, callback2)
+    const removeFlush = store.hooks.flush.add(flushCallback)
+    store.set(a, 2)
+    expect(callback1).toHaveBeenCalledTimes(1)
+    expect(callback2).toHaveBeenCalledTimes(1)
+    expect(flushCallback).toHaveBeenCalledTimes(1)
+    remove1()
+    removeFlush()
+    store.set(a, 3)
+    expect(callback1).toHaveBeenCalledTimes(1)
+    expect(callback2).toHaveBeenCalledTimes(2)
+    expect(flushCallback).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('eviction policy', () => {
+  it('evicts least recently used atom states over maxSize', async () => {
+    const store = createStore({ evict: { maxSize: 2 } })
+    const read = vi.fn((get: Getter) => get(a) * 2)
+    const a = atom(1)
+    const b = atom(read)
+    const c = atom(3)
+    const d = atom(4)
+    const onEvict = vi.fn()
+    b.unstable_onEvict = onEvict
+    store.get(b)
+    store.get(c)
+    store.get(d)
+    await Promise.resolve()
+    expect(onEvict).toHaveBeenCalledTimes(1)
+    expect(onEvict).toHaveBeenCalledWith(store)
+    expect(read).toHaveBeenCalledTimes(1)
+    expect(store.get(b)).toBe(2)
+    expect(read).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps written values and atoms opted out of eviction', async () => {
+    const store = createStore({ evict: { maxSize: 1 } })
+    const a = atom(1)
+    const b = atom(2)
+    const refAtom = atom(() => ({}))
+    refAtom.unstable_noEvict = true
+    const onEvict = vi.fn()
+    a.unstable_onEvict = onEvict
+    b.unstable_onEvict = onEvict
+    refAtom.unstable_onEvict = onEvict
+    const ref = store.get(refAtom)
+    store.set(a, 3)
+    store.get(b)
+    store.get(atom(4))
+    await Promise.resolve()
+    expect(onEvict).toHaveBeenCalledTimes(1)
+    expect(store.get(a)).toBe(3)
+    expect(store.get(refAtom)).toBe(ref)
+  })
+
+  it('evicts atom states not used for ttl', async () => {
+    vi.useFakeTimers()
+    const store = createStore({ evict: { ttl: 100 } })
+    const read = vi.fn(() => 1)
+    const a = atom(read)
+    const onEvict = vi.fn()
+    a.unstable_onEvict = onEvict
+    store.get(a)
+    await vi.advanceTimersByTimeAsync(50)
+    expect(store.get(a)).toBe(1)
+    await vi.advanceTimersByTimeAsync(50)
+    expect(onEvict).not.toHaveBeenCalled()
+    await vi.advanceTimersByTimeAsync(50)
+    expect(onEvict).toHaveBeenCalledTimes(1)
+    expect(read).toHaveBeenCalledTimes(1)
+    expect(store.get(a)).toBe(1)
+    expect(read).toHaveBeenCalledTimes(2)
+    vi.useRealTimers()
+  })
+
+  it('evicts atom states after unmount delay', async () => {
+    vi.useFakeTimers()
+    const store = createStore({ evict: { unmountDelay: 100 } })
+    const a = atom(() => 1)
+    const onEvict = vi.fn()
+    a.unstable_onEvict = onEvict
+    store.get(a)
+    await vi.advanceTimersByTimeAsync(200)
+    expect(onEvict).not.toHaveBeenCalled()
+    const unsub = store.sub(a, () => {})
+    await vi.advanceTimersByTimeAsync(200)
+    expect(onEvict).not.toHaveBeenCalled()
+    unsub()
+    await vi.advanceTimersByTimeAsync(100)
+    expect(onEvict).toHaveBeenCalledTimes(1)
+    vi.useRealTimers()
+  })
+
+  it('recomputes dependents of evicted atoms', async () => {
+    vi.useFakeTimers()
+    const store = createStore({ evict: { unmountDelay: 100 } })
+    let count = 0
+    const a = atom(() => ++count)
+    const b = atom((get) => get(a) * 2)
+    expect(store.get(b)).toBe(2)
+    store.sub(a, () => {})()
+    await vi.advanceTimersByTimeAsync(100)
+    // a is evicted, but b is not
+    expect(store.get(b)).toBe(4)
+    vi.useRealTimers()
+  })
+})
+
+describe('cycle detection', () => {
+  it('throws AtomCycleError for a dependency cycle', () => {
+    const store = createStore()
+    const aAtom: Atom<number> = atom((get) => get(bAtom))
+    aAtom.debugLabel = 'a'
+    const bAtom: Atom<number> = atom((get) => get(cAtom))
+    bAtom.debugLabel = 'b'
+    const cAtom: Atom<number> = atom((get) => get(aAtom))
+    cAtom.debugLabel = 'c'
+    let error: unknown
+    try {
+      store.get(aAtom)
+    } catch (e) {
+      error = e
+    }
+    expect(error).toBeInstanceOf(AtomCycleError)
+    expect((error as AtomCycleError).atoms).toEqual([
+      aAtom,
+      bAtom,
+      cAtom,
+      aAtom,
+    ])
+    expect((error as Error).message).toBe(
+      'Dependency cycle detected: a -> b -> c -> a',
+    )
+  })
+
+  it('recovers once a conditional cycle is resolved', () => {
+    const store = createStore()
+    const cyclicAtom = atom(true)
+    const aAtom: Atom<number> = atom((get) =>
+      get(cyclicAtom) ? get(bAtom) : 0,
+    )
+    const bAtom: Atom<number> = atom((get) => get(aAtom) + 1)
+    expect(() => store.get(bAtom)).toThrow(AtomCycleError)
+    store.set(cyclicAtom, false)
+    expect(store.get(bAtom)).toBe(1)
+    expect(store.get(aAtom)).toBe(0)
+  })
+
+  it('throws AtomCycleError for a write loop in listeners', () => {
+    const store = createStore()
+    const countAtom = atom(0)
+    countAtom.debugLabel = 'count'
+    store.sub(countAtom, () => {
+      store.set(countAtom, (c) => c + 1)
+    })
+    expect(() => store.set(countAtom, 1)).toThrow(
+      new AtomCycleError('Write loop detected', [countAtom]),
+    )
+  })
+
+  it('allows listeners to update atoms until a condition is met', () => {
+    const store = createStore()
+    const countAtom = atom(0)
+    store.sub(countAtom, () => {
+      const count = store.get(countAtom)
+      if (count < 150) {
+        store.set(countAtom, count + 1)
+      }
+    })
+    store.set(countAtom, 1)
+    expect(store.get(countAtom)).toBe(150)
+  })
+
+  it('throws AtomCycleError for a write loop in onMount', () => {
+    const store = createStore()
+    const aAtom = atom(0)
+    aAtom.debugLabel = 'a'
+    const bAtom = atom(0)
+    bAtom.debugLabel = 'b'
+    const aMirrorAtom = atom(null, (get, set) => set(aAtom, get(bAtom) + 1))
+    aMirrorAtom.onMount = (setAtom) => store.sub(bAtom, setAtom)
+    const bMirrorAtom = atom(null, (get, set) => set(bAtom, get(aAtom) + 1))
+    bMirrorAtom.onMount = (setAtom) => store.sub(aAtom, setAtom)
+    store.sub(aMirrorAtom, () => {})
+    store.sub(bMirrorAtom, () => {})
+    expect(() => store.set(aAtom, 1)).toThrow(AtomCycleError)
+  })
+})
+
+describe('scheduler', () => {
+  it('notifies listeners synchronously by default', () => {
+    const store = createStore({ scheduler: 'sync' })
+    const countAtom = atom(0)
+    const listener = vi.fn()
+    store.sub(countAtom, listener)
+    store.set(countAtom, 1)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('coalesces listener calls in a microtask', async () => {
+    const store = createStore({ scheduler: 'microtask' })
+    const countAtom = atom(0)
+    const doubledAtom = atom((get) => get(countAtom) * 2)
+    const listener = vi.fn(() => store.get(doubledAtom))
+    store.sub(doubledAtom, listener)
+    store.set(countAtom, 1)
+    store.set(countAtom, 2)
+    expect(store.get(doubledAtom)).toBe(4)
+    expect(listener).not.toHaveBeenCalled()
+    await Promise.resolve()
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveLastReturnedWith(4)
+  })
+
+  it('supports a custom scheduler', () => {
+    const flushes: (() => void)[] = []
+    const store = createStore({ scheduler: (flush) => flushes.push(flush) })
+    const countAtom = atom(0)
+    const listener1 = vi.fn()
+    const listener2 = vi.fn()
+    store.sub(countAtom, listener1)
+    const unsub2 = store.sub(countAtom, listener2)
+    store.set(countAtom, 1)
+    store.set(countAtom, 2)
+    unsub2()
+    expect(flushes.length).toBe(1)
+    flushes[0]!()
+    expect(listener1).toHaveBeenCalledTimes(1)
+    expect(listener2).not.toHaveBeenCalled()
+  })
+
+  it('batches listener calls in an animation frame', async () => {
+    vi.useFakeTimers()
+    const store = createStore({ scheduler: 'animationFrame' })
+    const countAtom = atom(0)
+    const listener = vi.fn()
+    store.sub(countAtom, listener)
+    store.set(countAtom, 1)
+    store.set(countAtom, 2)
+    expect(listener).not.toHaveBeenCalled()
+    await vi.runAllTimersAsync()
+    expect(listener).toHaveBeenCalledTimes(1)
+    vi.useRealTimers()
+  })
+})
+
+describe('equals option', () => {
+  it('keeps the previous value of a derived atom if equal', () => {
+    const store = createStore()
+    const countAtom = atom(0)
+    const parityAtom = atom((get) => ({ isEven: get(countAtom) % 2 === 0 }), {
+      equals: shallowEqual,
+    })
+    const derived = vi.fn((get: Getter) => get(parityAtom).isEven)
+    const derivedAtom = atom(derived)
+    const listener = vi.fn()
+    store.sub(derivedAtom, listener)
+    const prevParity = store.get(parityAtom)
+    store.set(countAtom, 2)
+    expect(store.get(parityAtom)).toBe(prevParity)
+    expect(derived).toHaveBeenCalledTimes(1)
+    expect(listener).not.toHaveBeenCalled()
+    store.set(countAtom, 3)
+    expect(store.get(parityAtom)).toEqual({ isEven: false })
+    expect(derived).toHaveBeenCalledTimes(2)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('skips notifying listeners of a primitive atom if equal', () => {
+    const store = createStore()
+    const pointAtom = atom({ x: 0, y: 0 }, { equals: shallowEqual })
+    const listener = vi.fn()
+    store.sub(pointAtom, listener)
+    store.set(pointAtom, { x: 0, y: 0 })
+    expect(listener).not.toHaveBeenCalled()
+    store.set(pointAtom, { x: 1, y: 0 })
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not compare promises', async () => {
+    const store = createStore()
+    const equals = vi.fn(() => true)
+    const countAtom = atom(0)
+    const asyncAtom = atom(async (get) => get(countAtom), { equals })
+    store.sub(asyncAtom, () => {})
+    const promise = store.get(asyncAtom)
+    store.set(countAtom, 1)
+    expect(store.get(asyncAtom)).not.toBe(promise)
+    expect(await store.get(asyncAtom)).toBe(1)
+    expect(equals).not.toHaveBeenCalled()
+  })
+})
+
+describe('inspectStore', () => {
+  it('returns the mounted atom graph', () => {
+    const store = createStore()
+    const countAtom = atom(1, { key: 'count' })
+    const doubledAtom = atom((get) => get(countAtom) * 2, { key: 'doubled' })
+    const unmountedAtom = atom(0, { key: 'unmounted' })
+    store.get(unmountedAtom)
+    const unsub = store.sub(doubledAtom, () => {})
+    const graph = inspectStore(store)
+    expect(graph.toJSON()).toEqual({
+      nodes: expect.arrayContaining([
+        {
+          id: 'count',
+          label: 'count',
+          value: 1,
+          epoch: 1,
+          dependencies: [],
+          dependents: ['doubled'],
+          listeners: 0,
+        },
+        {
+          id: 'doubled',
+          label: 'doubled',
+          value: 2,
+          epoch: 1,
+          dependencies: ['count'],
+          dependents: [],
+          listeners: 1,
+        },
+      ]),
+    })
+    expect(graph.nodes.map((node) => node.atom)).toHaveLength(2)
+    expect(graph.toDOT()).toBe(
+      [
+        'digraph store {',
+        '  "count" [label="count"];',
+        '  "doubled" [label="doubled"];',
+        '  "count" -> "doubled";',
+        '}',
+      ].join('\n'),
+    )
+    unsub()
+    expect(inspectStore(store).nodes).toEqual([])
+  })
+
+  it('includes errors of mounted atoms', () => {
+    const store = createStore({ scheduler: 'microtask' })
+    const error = new Error('failed')
+    const errorAtom = atom(() => {
+      throw error
+    })
+    store.sub(errorAtom, () => {})
+    const [node] = inspectStore(store).nodes
+    expect(node?.error).toBe(error)
+    expect(node && 'value' in node).toBe(false)
+  })
+})
@@ -8,6 +8,7 @@ import type {
   ExtractAtomResult,
   ExtractAtomValue,
   PrimitiveAtom,
+  Setter,
   WritableAtom,
 } from 'jotai/vanilla'
 
@@ -66,3 +67,14 @@ it('type utils should work', () => {
   }
   expect(Component).toBeDefined()
 })
+
+it('setters can be wrapped', () => {
+  function Component() {
+    const countAtom = atom(0, (get, set: Setter, value: number) => {
+      const wrappedSet: Setter = (a, ...args) => set(a, ...args)
+      wrappedSet(countAtom, get(countAtom) + value)
+    })
+    expectType<WritableAtom<number, [number], void>>(countAtom)
+  }
+  expect(Component).toBeDefined()
+})
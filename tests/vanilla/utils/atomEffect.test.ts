@@ -0,0 +1,96 @@
+import LeakDetector from 'jest-leak-detector'
+import { expect, it, vi } from 'vitest'
+import { atom, createStore } from 'jotai/vanilla'
+import type { Atom, Getter, Setter } from 'jotai/vanilla'
+import { atomEffect } from 'jotai/vanilla/utils'
+
+it('runs the effect when mounted and cleans up when unmounted', () => {
+  const store = createStore()
+  const cleanup = vi.fn()
+  const effect = vi.fn(() => cleanup)
+  const effectAtom = atomEffect(effect)
+  expect(effect).not.toHaveBeenCalled()
+  const unsub = store.sub(effectAtom, () => {})
+  expect(effect).toHaveBeenCalledTimes(1)
+  expect(cleanup).not.toHaveBeenCalled()
+  unsub()
+  expect(cleanup).toHaveBeenCalledTimes(1)
+  expect(effect).toHaveBeenCalledTimes(1)
+})
+
+it('re-runs synchronously when its dependencies change', () => {
+  const store = createStore()
+  const countAtom = atom(0)
+  const otherAtom = atom(0)
+  const values: number[] = []
+  const cleanup = vi.fn()
+  const effectAtom = atomEffect((get) => {
+    values.push(get(countAtom))
+    return cleanup
+  })
+  store.sub(effectAtom, () => {})
+  store.set(countAtom, 1)
+  expect(values).toEqual([0, 1])
+  expect(cleanup).toHaveBeenCalledTimes(1)
+  store.set(otherAtom, 1)
+  expect(values).toEqual([0, 1])
+})
+
+it('tracks dependencies read in the latest run', () => {
+  const store = createStore()
+  const switchAtom = atom(true)
+  const aAtom = atom('a')
+  const bAtom = atom('b')
+  const effect = vi.fn((get: Getter) => {
+    get(get(switchAtom) ? aAtom : bAtom)
+  })
+  store.sub(atomEffect(effect), () => {})
+  store.set(bAtom, 'b1')
+  expect(effect).toHaveBeenCalledTimes(1)
+  store.set(switchAtom, false)
+  expect(effect).toHaveBeenCalledTimes(2)
+  store.set(bAtom, 'b2')
+  expect(effect).toHaveBeenCalledTimes(3)
+})
+
+it('sets atoms without re-running itself', () => {
+  const store = createStore()
+  const countAtom = atom(0)
+  const doubledAtom = atom(0)
+  const effect = vi.fn((get: Getter, set: Setter) => {
+    set(doubledAtom, get(countAtom) * 2)
+    set(countAtom, (c) => c)
+  })
+  store.sub(atomEffect(effect), () => {})
+  store.set(countAtom, 2)
+  expect(store.get(doubledAtom)).toBe(4)
+  expect(effect).toHaveBeenCalledTimes(2)
+})
+
+it('runs before listeners of the write that triggered it', () => {
+  const store = createStore()
+  const countAtom = atom(0)
+  const logs: string[] = []
+  const effectAtom = atomEffect((get) => {
+    logs.push(`effect ${get(countAtom)}`)
+  })
+  store.sub(effectAtom, () => {})
+  store.sub(countAtom, () => logs.push(`listener ${store.get(countAtom)}`))
+  store.set(countAtom, 1)
+  expect(logs).toEqual(['effect 0', 'effect 1', 'listener 1'])
+})
+
+it('is not held by the store after unmount', async () => {
+  const store = createStore()
+  const countAtom = atom(0)
+  let effect: ((get: Getter) => void) | undefined = (get) => {
+    get(countAtom)
+  }
+  const detector = new LeakDetector(effect)
+  let effectAtom: Atom<void> | undefined = atomEffect(effect)
+  store.sub(effectAtom, () => {})()
+  effect = undefined
+  effectAtom = undefined
+  store.set(countAtom, 1)
+  expect(await detector.isLeaking()).toBe(false)
+})
@@ -1,7 +1,7 @@
-import { expect, it, vi } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { atom, createStore } from 'jotai/vanilla'
 import type { Atom } from 'jotai/vanilla'
-import { atomFamily } from 'jotai/vanilla/utils'
+import { atomFamily, stableHash } from 'jotai/vanilla/utils'
 
 it('should create atoms with different params', () => {
   const store = createStore()
@@ -93,3 +93,186 @@ it('should return all params', () => {
   expect(store.get(aFamily(3))).toEqual(3)
   expect(Array.from(aFamily.getParams())).toEqual([1, 2, 3])
 })
+
+it('should remove atoms evicted from the store', async () => {
+  const store = createStore({ evict: { maxSize: 1 } })
+  const aFamily = atomFamily((param: number) => atom(param))
+  const listener = vi.fn()
+  aFamily.unstable_listen(listener)
+  const atom1 = aFamily(1)
+  store.get(atom1)
+  store.get(aFamily(2))
+  listener.mockClear()
+  await Promise.resolve()
+  expect(listener).toHaveBeenCalledTimes(1)
+  expect(listener).toHaveBeenCalledWith({
+    type: 'REMOVE',
+    param: 1,
+    atom: atom1,
+  })
+  expect(Array.from(aFamily.getParams())).toEqual([2])
+})
+
+it('should keep atoms evicted from only one store', async () => {
+  const store = createStore({ evict: { maxSize: 1 } })
+  const otherStore = createStore()
+  const aFamily = atomFamily((param: number) => atom(param))
+  const atom1 = aFamily(1)
+  otherStore.get(atom1)
+  store.get(atom1)
+  store.get(aFamily(2))
+  await Promise.resolve()
+  expect(Array.from(aFamily.getParams())).toEqual([1, 2])
+  expect(aFamily(1)).toBe(atom1)
+})
+
+it('should not add init hooks to atoms for eviction', async () => {
+  const store = createStore({ evict: { maxSize: 1 } })
+  const sharedAtom = atom((get) => get(baseAtom))
+  const baseAtom = atom(0)
+  const aFamily = atomFamily((_param: number) => sharedAtom)
+  expect(aFamily(1).unstable_onInit).toBeUndefined()
+  const onEvict = sharedAtom.unstable_onEvict
+  expect(aFamily(2).unstable_onEvict).toBe(onEvict)
+  store.get(aFamily(1))
+  store.get(atom(0))
+  await Promise.resolve()
+  expect(Array.from(aFamily.getParams())).toEqual([])
+})
+
+it('should look up atoms by key', () => {
+  const store = createStore()
+  const initializeAtom = vi.fn((param: { id: number; name: string }) =>
+    atom(param.name),
+  )
+  const aFamily = atomFamily(initializeAtom, { key: (param) => param.id })
+  const listener = vi.fn()
+  aFamily.unstable_listen(listener)
+
+  const param1 = { id: 1, name: 'a' }
+  expect(store.get(aFamily(param1))).toEqual('a')
+  expect(aFamily({ id: 1, name: 'b' })).toBe(aFamily(param1))
+  expect(initializeAtom).toHaveBeenCalledTimes(1)
+  expect(Array.from(aFamily.getParams())).toEqual([param1])
+  aFamily.remove({ id: 1, name: 'b' })
+  expect(listener).toHaveBeenLastCalledWith({
+    type: 'REMOVE',
+    param: param1,
+    atom: expect.anything(),
+  })
+  expect(Array.from(aFamily.getParams())).toEqual([])
+})
+
+it('should look up atoms by structural hash', () => {
+  const aFamily = atomFamily(
+    (param: { x: number; y: number[] }) => atom(param),
+    { key: stableHash },
+  )
+  expect(aFamily({ x: 1, y: [2] })).toBe(aFamily({ y: [2], x: 1 }))
+  expect(aFamily({ x: 1, y: [2] })).not.toBe(aFamily({ x: 1, y: [3] }))
+})
+
+it('should hash structurally equal values to the same string', () => {
+  expect(stableHash({ a: 1, b: { c: [1, { d: 2, e: 3 }] } })).toBe(
+    stableHash({ b: { c: [1, { e: 3, d: 2 }] }, a: 1 }),
+  )
+  expect(stableHash([1, 2])).not.toBe(stableHash([2, 1]))
+  expect(stableHash({ a: '1' })).not.toBe(stableHash({ a: 1 }))
+})
+
+describe('bounded atomFamily', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should remove least recently used atoms beyond maxSize', () => {
+    const aFamily = atomFamily((param: number) => atom(param), { maxSize: 2 })
+    const listener = vi.fn()
+    aFamily.unstable_listen(listener)
+    const atom1 = aFamily(1)
+    aFamily(2)
+    aFamily(1)
+    aFamily(3)
+    expect(Array.from(aFamily.getParams())).toEqual([1, 3])
+    expect(listener).toHaveBeenLastCalledWith({
+      type: 'REMOVE',
+      param: 2,
+      atom: expect.anything(),
+    })
+    expect(aFamily(1)).toBe(atom1)
+  })
+
+  it('should remove atoms not used within ttl', () => {
+    const aFamily = atomFamily((param: number) => atom(param), { ttl: 100 })
+    const listener = vi.fn()
+    aFamily.unstable_listen(listener)
+    aFamily(1)
+    aFamily(2)
+    vi.advanceTimersByTime(50)
+    aFamily(1)
+    vi.advanceTimersByTime(50)
+    expect(Array.from(aFamily.getParams())).toEqual([1])
+    vi.advanceTimersByTime(50)
+    expect(Array.from(aFamily.getParams())).toEqual([])
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual([
+      'CREATE',
+      'CREATE',
+      'REMOVE',
+      'REMOVE',
+    ])
+  })
+
+  it('should keep mounted atoms beyond maxSize', () => {
+    const store = createStore()
+    const aFamily = atomFamily((_param: string) => atom(0), { maxSize: 2 })
+    const atomA = aFamily('a')
+    const unsub = store.sub(atomA, () => {})
+    store.set(atomA, 5)
+    aFamily('b')
+    aFamily('c')
+    expect(aFamily('a')).toBe(atomA)
+    expect(store.get(aFamily('a'))).toBe(5)
+    unsub()
+    aFamily('d')
+    expect(Array.from(aFamily.getParams())).toEqual(['a', 'd'])
+  })
+
+  it('should keep mounted atoms beyond ttl', () => {
+    const store = createStore()
+    const aFamily = atomFamily((_param: string) => atom(0), { ttl: 100 })
+    const atomA = aFamily('a')
+    const unsub = store.sub(atomA, () => {})
+    vi.advanceTimersByTime(300)
+    expect(Array.from(aFamily.getParams())).toEqual(['a'])
+    unsub()
+    vi.advanceTimersByTime(50)
+    expect(Array.from(aFamily.getParams())).toEqual(['a'])
+    vi.advanceTimersByTime(50)
+    expect(Array.from(aFamily.getParams())).toEqual([])
+  })
+
+  it('should remove atoms unmounted in all stores', async () => {
+    const store1 = createStore()
+    const store2 = createStore()
+    const aFamily = atomFamily((param: number) => atom(param), {
+      evictOnUnmount: true,
+    })
+    const atom1 = aFamily(1)
+    const unsub1 = store1.sub(atom1, () => {})
+    const unsub2 = store2.sub(atom1, () => {})
+    unsub1()
+    await Promise.resolve()
+    expect(aFamily(1)).toBe(atom1)
+    unsub2()
+    const unsub3 = store2.sub(atom1, () => {})
+    await Promise.resolve()
+    expect(aFamily(1)).toBe(atom1)
+    unsub3()
+    await Promise.resolve()
+    expect(Array.from(aFamily.getParams())).toEqual([])
+    expect(aFamily(1)).not.toBe(atom1)
+  })
+})
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { atom, createStore } from 'jotai/vanilla'
+import { atomWithAsync } from 'jotai/vanilla/utils'
+
+describe('atomWithAsync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('keeps the previous value while refetching', async () => {
+    const store = createStore()
+    let count = 0
+    const countAtom = atomWithAsync(async () => {
+      await new Promise((r) => setTimeout(r, 100))
+      return ++count
+    })
+    const { isFetchingAtom, lastUpdatedAtAtom } = countAtom
+    store.sub(countAtom, () => {})
+    expect(store.get(countAtom)).toBeInstanceOf(Promise)
+    expect(store.get(isFetchingAtom)).toBe(true)
+    await vi.advanceTimersByTimeAsync(100)
+    expect(store.get(countAtom)).toBe(1)
+    expect(store.get(isFetchingAtom)).toBe(false)
+    expect(store.get(lastUpdatedAtAtom)).toBe(Date.now())
+    store.set(countAtom)
+    expect(store.get(countAtom)).toBe(1)
+    expect(store.get(isFetchingAtom)).toBe(true)
+    await vi.advanceTimersByTimeAsync(100)
+    expect(store.get(countAtom)).toBe(2)
+  })
+
+  it('refetches when dependencies change', async () => {
+    const store = createStore()
+    const idAtom = atom(1)
+    const userAtom = atomWithAsync(async (get) => `user${get(idAtom)}`)
+    store.sub(userAtom, () => {})
+    await vi.advanceTimersByTimeAsync(0)
+    expect(store.get(userAtom)).toBe('user1')
+    store.set(idAtom, 2)
+    expect(store.get(userAtom)).toBe('user1')
+    await vi.advanceTimersByTimeAsync(0)
+    expect(store.get(userAtom)).toBe('user2')
+  })
+
+  it('retries with backoff', async () => {
+    const store = createStore()
+    const read = vi.fn(async () => {
+      if (read.mock.calls.length < 3) {
+        throw new Error('failed')
+      }
+      return 'ok'
+    })
+    const anAtom = atomWithAsync(read, {
+      retry: { count: 2, backoff: (attempt) => 100 * (attempt + 1) },
+    })
+    store.sub(anAtom, () => {})
+    await vi.advanceTimersByTimeAsync(0)
+    expect(read).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(100)
+    expect(read).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(200)
+    expect(read).toHaveBeenCalledTimes(3)
+    expect(store.get(anAtom)).toBe('ok')
+  })
+
+  it('throws the error after retries', async () => {
+    const store = createStore()
+    const anAtom = atomWithAsync(
+      async () => {
+        throw new Error('failed')
+      },
+      { retry: { count: 1, backoff: () => 100 } },
+    )
+    store.sub(anAtom, () => {})
+    await vi.advanceTimersByTimeAsync(100)
+    expect(() => store.get(anAtom)).toThrow('failed')
+    expect(store.get(anAtom.isFetchingAtom)).toBe(false)
+  })
+
+  it('aborts attempts after timeout', async () => {
+    const store = createStore()
+    let aborted = false
+    const anAtom = atomWithAsync(
+      (_get, { signal }) =>
+        new Promise<string>(() => {
+          signal.addEventListener('abort', () => {
+            aborted = true
+          })
+        }),
+      { timeout: 100 },
+    )
+    store.sub(anAtom, () => {})
+    await vi.advanceTimersByTimeAsync(100)
+    expect(aborted).toBe(true)
+    expect(() => store.get(anAtom)).toThrow('Timeout')
+  })
+
+  it('refetches at the interval and stale values on mount', async () => {
+    const store = createStore()
+    const read = vi.fn(async () => read.mock.calls.length)
+    const anAtom = atomWithAsync(read, {
+      staleTime: 1000,
+      refetchInterval: 500,
+    })
+    let unsub = store.sub(anAtom, () => {})
+    await vi.advanceTimersByTimeAsync(0)
+    expect(read).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(500)
+    expect(read).toHaveBeenCalledTimes(2)
+    expect(store.get(anAtom)).toBe(2)
+    unsub()
+    await vi.advanceTimersByTimeAsync(500)
+    unsub = store.sub(anAtom, () => {})
+    await vi.advanceTimersByTimeAsync(0)
+    expect(read).toHaveBeenCalledTimes(2)
+    unsub()
+    await vi.advanceTimersByTimeAsync(1000)
+    unsub = store.sub(anAtom, () => {})
+    await vi.advanceTimersByTimeAsync(0)
+    expect(read).toHaveBeenCalledTimes(3)
+    unsub()
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest'
+import { atom, createStore } from 'jotai/vanilla'
+import { atomWithAsyncIterable } from 'jotai/vanilla/utils'
+
+const createSource = <T>() => {
+  const resolves: ((result: IteratorResult<T>) => void)[] = []
+  const returned = vi.fn()
+  const iterable: AsyncIterable<T> = {
+    [Symbol.asyncIterator]: () => ({
+      next: () => new Promise((r) => resolves.push(r)),
+      return: async () => {
+        returned()
+        return { done: true, value: undefined }
+      },
+    }),
+  }
+  const push = async (value: T) => {
+    await vi.waitFor(() => expect(resolves.length).toBeGreaterThan(0))
+    resolves.shift()!({ done: false, value })
+    await new Promise((r) => setTimeout(r))
+  }
+  return { iterable, push, returned }
+}
+
+describe('atomWithAsyncIterable', () => {
+  it('has the latest chunk', async () => {
+    const store = createStore()
+    const source = createSource<number>()
+    const anAtom = atomWithAsyncIterable(() => source.iterable)
+    store.sub(anAtom, () => {})
+    const promise = store.get(anAtom)
+    expect(promise).toBeInstanceOf(Promise)
+    await source.push(1)
+    expect(await promise).toBe(1)
+    await source.push(2)
+    expect(store.get(anAtom)).toBe(2)
+  })
+
+  it('accumulates chunks', async () => {
+    const store = createStore()
+    const source1 = createSource<string>()
+    const source2 = createSource<string>()
+    const arrayAtom = atomWithAsyncIterable(() => source1.iterable, {
+      accumulate: true,
+    })
+    const textAtom = atomWithAsyncIterable(() => source2.iterable, {
+      initialValue: '',
+      accumulate: (acc, chunk) => acc + chunk,
+    })
+    store.sub(arrayAtom, () => {})
+    store.sub(textAtom, () => {})
+    expect(store.get(arrayAtom)).toEqual([])
+    expect(store.get(textAtom)).toBe('')
+    await source1.push('a')
+    await source1.push('b')
+    await source2.push('a')
+    await source2.push('b')
+    expect(store.get(arrayAtom)).toEqual(['a', 'b'])
+    expect(store.get(textAtom)).toBe('ab')
+  })
+
+  it('cancels the iteration on unmount and dependency change', async () => {
+    const store = createStore()
+    const idAtom = atom(1)
+    const sources = [createSource<string>(), createSource<string>()]
+    const signals: AbortSignal[] = []
+    const anAtom = atomWithAsyncIterable(
+      (get, { signal }) => {
+        signals.push(signal)
+        return sources[get(idAtom) - 1]!.iterable
+      },
+      { initialValue: '' },
+    )
+    const unsub = store.sub(anAtom, () => {})
+    await sources[0]!.push('a')
+    expect(store.get(anAtom)).toBe('a')
+    store.set(idAtom, 2)
+    expect(sources[0]!.returned).toHaveBeenCalledTimes(1)
+    expect(signals[0]!.aborted).toBe(true)
+    await sources[1]!.push('b')
+    expect(store.get(anAtom)).toBe('b')
+    unsub()
+    expect(sources[1]!.returned).toHaveBeenCalledTimes(1)
+    expect(signals[1]!.aborted).toBe(true)
+  })
+
+  it('cancels the iterable of unmounted atoms on dependency change', () => {
+    const store = createStore()
+    const idAtom = atom(1)
+    const signals: AbortSignal[] = []
+    const anAtom = atomWithAsyncIterable(
+      (get, { signal }) => {
+        get(idAtom)
+        signals.push(signal)
+        return createSource<number>().iterable
+      },
+      { initialValue: 0 },
+    )
+    store.get(anAtom)
+    store.set(idAtom, 2)
+    store.get(anAtom)
+    expect(signals.map((signal) => signal.aborted)).toEqual([true, false])
+  })
+
+  it('reads ReadableStream', async () => {
+    const store = createStore()
+    const stream = new ReadableStream<number>({
+      start(controller) {
+        controller.enqueue(1)
+        controller.enqueue(2)
+        controller.close()
+      },
+    })
+    // without async iteration support
+    const anAtom = atomWithAsyncIterable(
+      () => ({ getReader: () => stream.getReader() }) as ReadableStream<number>,
+      { accumulate: true },
+    )
+    store.sub(anAtom, () => {})
+    await vi.waitFor(() => expect(store.get(anAtom)).toEqual([1, 2]))
+  })
+
+  it('throws errors from the iterable', async () => {
+    const store = createStore()
+    const anAtom = atomWithAsyncIterable(async function* () {
+      yield 1
+      throw new Error('failed')
+    })
+    store.sub(anAtom, () => {})
+    await vi.waitFor(() => expect(() => store.get(anAtom)).toThrow('failed'))
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createStore } from 'jotai/vanilla'
+import { atomWithBroadcast } from 'jotai/vanilla/utils'
+
+// stores play the role of tabs
+describe('atomWithBroadcast', () => {
+  it('syncs values between stores', async () => {
+    const countAtom = atomWithBroadcast('count', 0, { channel: 'test-sync' })
+    const store1 = createStore()
+    const store2 = createStore()
+    const listener = vi.fn()
+    const unsub1 = store1.sub(countAtom, () => {})
+    const unsub2 = store2.sub(countAtom, listener)
+    store1.set(countAtom, 1)
+    expect(store1.get(countAtom)).toBe(1)
+    await vi.waitFor(() => expect(store2.get(countAtom)).toBe(1))
+    expect(listener).toHaveBeenCalledTimes(1)
+    store2.set(countAtom, (c) => c + 1)
+    await vi.waitFor(() => expect(store1.get(countAtom)).toBe(2))
+    unsub1()
+    unsub2()
+  })
+
+  it('gets the latest value from other stores on mount', async () => {
+    const textAtom = atomWithBroadcast('text', '', { channel: 'test-init' })
+    const store1 = createStore()
+    const unsub1 = store1.sub(textAtom, () => {})
+    store1.set(textAtom, 'hello')
+    const store2 = createStore()
+    const unsub2 = store2.sub(textAtom, () => {})
+    expect(store2.get(textAtom)).toBe('')
+    await vi.waitFor(() => expect(store2.get(textAtom)).toBe('hello'))
+    unsub1()
+    unsub2()
+  })
+
+  it('resolves concurrent updates to the same value', async () => {
+    const countAtom = atomWithBroadcast('count', 0, {
+      channel: 'test-conflict',
+    })
+    const store1 = createStore()
+    const store2 = createStore()
+    const unsub1 = store1.sub(countAtom, () => {})
+    const unsub2 = store2.sub(countAtom, () => {})
+    store1.set(countAtom, 1)
+    store2.set(countAtom, 2)
+    await vi.waitFor(() =>
+      expect(store1.get(countAtom)).toBe(store2.get(countAtom)),
+    )
+    const value = store1.get(countAtom)
+    store1.set(countAtom, value + 10)
+    await vi.waitFor(() => expect(store2.get(countAtom)).toBe(value + 10))
+    unsub1()
+    unsub2()
+  })
+
+  it('ignores other keys', async () => {
+    const aAtom = atomWithBroadcast('a', 0, { channel: 'test-keys' })
+    const bAtom = atomWithBroadcast('b', 0, { channel: 'test-keys' })
+    const store1 = createStore()
+    const store2 = createStore()
+    const unsub1 = store1.sub(aAtom, () => {})
+    const unsub2 = store2.sub(bAtom, () => {})
+    const unsub3 = store2.sub(aAtom, () => {})
+    store1.set(aAtom, 1)
+    await vi.waitFor(() => expect(store2.get(aAtom)).toBe(1))
+    expect(store2.get(bAtom)).toBe(0)
+    unsub1()
+    unsub2()
+    unsub3()
+  })
+})
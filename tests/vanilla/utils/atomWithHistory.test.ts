@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { atom, createStore } from 'jotai/vanilla'
+import {
+  RESET,
+  atomWithGroupedHistory,
+  atomWithHistory,
+} from 'jotai/vanilla/utils'
+
+describe('atomWithHistory', () => {
+  it('undoes and redoes updates', () => {
+    const store = createStore()
+    const baseAtom = atom(0)
+    const countAtom = atomWithHistory(baseAtom)
+    const { undoAtom, redoAtom, canUndoAtom, canRedoAtom } = countAtom
+    expect(store.get(canUndoAtom)).toBe(false)
+    store.set(countAtom, 1)
+    store.set(countAtom, (c) => c + 1)
+    expect(store.get(baseAtom)).toBe(2)
+    expect(store.get(canUndoAtom)).toBe(true)
+    store.set(undoAtom)
+    expect(store.get(countAtom)).toBe(1)
+    expect(store.get(canRedoAtom)).toBe(true)
+    store.set(undoAtom)
+    store.set(undoAtom)
+    expect(store.get(countAtom)).toBe(0)
+    expect(store.get(canUndoAtom)).toBe(false)
+    store.set(redoAtom)
+    expect(store.get(countAtom)).toBe(1)
+    store.set(countAtom, 5)
+    expect(store.get(canRedoAtom)).toBe(false)
+    store.set(undoAtom)
+    expect(store.get(countAtom)).toBe(1)
+  })
+
+  it('resets to the initial value', () => {
+    const store = createStore()
+    const countAtom = atomWithHistory(atom(0))
+    store.set(countAtom, 1)
+    store.set(countAtom, RESET)
+    expect(store.get(countAtom)).toBe(0)
+    store.set(countAtom.undoAtom)
+    expect(store.get(countAtom)).toBe(1)
+    store.set(countAtom, () => RESET)
+    expect(store.get(countAtom)).toBe(0)
+  })
+
+  it('limits the number of entries', () => {
+    const store = createStore()
+    const countAtom = atomWithHistory(atom(0), { limit: 2 })
+    for (let i = 1; i <= 5; ++i) {
+      store.set(countAtom, i)
+    }
+    store.set(countAtom.undoAtom)
+    store.set(countAtom.undoAtom)
+    store.set(countAtom.undoAtom)
+    expect(store.get(countAtom)).toBe(3)
+    expect(store.get(countAtom.canUndoAtom)).toBe(false)
+  })
+
+  it('records only filtered updates', () => {
+    const store = createStore()
+    const textAtom = atomWithHistory(atom(''), {
+      filter: (prev, next) => next.length < prev.length || next.endsWith(' '),
+    })
+    store.set(textAtom, 'a')
+    store.set(textAtom, 'ab ')
+    store.set(textAtom, 'ab c')
+    store.set(textAtom.undoAtom)
+    expect(store.get(textAtom)).toBe('a')
+  })
+
+  describe('coalescing', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('records updates within coalesceMs as one entry', () => {
+      const store = createStore()
+      const textAtom = atomWithHistory(atom(''), { coalesceMs: 100 })
+      store.set(textAtom, 'a')
+      vi.advanceTimersByTime(50)
+      store.set(textAtom, 'ab')
+      vi.advanceTimersByTime(50)
+      store.set(textAtom, 'abc')
+      vi.advanceTimersByTime(200)
+      store.set(textAtom, 'abcd')
+      store.set(textAtom.undoAtom)
+      expect(store.get(textAtom)).toBe('abc')
+      store.set(textAtom.undoAtom)
+      expect(store.get(textAtom)).toBe('')
+    })
+  })
+})
+
+describe('atomWithGroupedHistory', () => {
+  it('records one entry per write and transaction', () => {
+    const store = createStore()
+    const xAtom = atom(0)
+    const yAtom = atom(0)
+    const moveAtom = atom(null, (_get, set, x: number, y: number) => {
+      set(xAtom, x)
+      set(yAtom, y)
+    })
+    const { undoAtom, redoAtom, canUndoAtom } = atomWithGroupedHistory([
+      xAtom,
+      yAtom,
+    ])
+    expect(store.get(canUndoAtom)).toBe(false)
+    store.set(moveAtom, 1, 1)
+    store.transaction((_get, set) => {
+      set(xAtom, 2)
+      set(yAtom, 2)
+    })
+    store.set(xAtom, 3)
+    expect([store.get(xAtom), store.get(yAtom)]).toEqual([3, 2])
+    store.set(undoAtom)
+    expect([store.get(xAtom), store.get(yAtom)]).toEqual([2, 2])
+    store.set(undoAtom)
+    expect([store.get(xAtom), store.get(yAtom)]).toEqual([1, 1])
+    store.set(undoAtom)
+    expect([store.get(xAtom), store.get(yAtom)]).toEqual([0, 0])
+    expect(store.get(canUndoAtom)).toBe(false)
+    store.set(redoAtom)
+    store.set(redoAtom)
+    expect([store.get(xAtom), store.get(yAtom)]).toEqual([2, 2])
+  })
+
+  it('notifies listeners of canUndoAtom', () => {
+    const store = createStore()
+    const xAtom = atom(0)
+    const { canUndoAtom } = atomWithGroupedHistory([xAtom])
+    const listener = vi.fn()
+    store.sub(canUndoAtom, listener)
+    store.set(xAtom, 1)
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(store.get(canUndoAtom)).toBe(true)
+  })
+
+  it('records updates to atoms initialized before the history', () => {
+    const store = createStore()
+    const xAtom = atom(0)
+    const yAtom = atom('a')
+    store.get(xAtom)
+    store.get(yAtom)
+    const { undoAtom, canUndoAtom } = atomWithGroupedHistory([xAtom, yAtom])
+    store.sub(canUndoAtom, () => {})
+    store.set(xAtom, 1)
+    store.set(yAtom, 'b')
+    expect(store.get(canUndoAtom)).toBe(true)
+    store.set(undoAtom)
+    store.set(undoAtom)
+    expect([store.get(xAtom), store.get(yAtom)]).toEqual([0, 'a'])
+  })
+
+  it('does not record rolled back transactions', () => {
+    const store = createStore()
+    const xAtom = atom(0)
+    const { canUndoAtom } = atomWithGroupedHistory([xAtom])
+    expect(store.get(canUndoAtom)).toBe(false)
+    expect(() =>
+      store.transaction((_get, set) => {
+        set(xAtom, 5)
+        throw new Error('rollback')
+      }),
+    ).toThrow('rollback')
+    expect(store.get(xAtom)).toBe(0)
+    expect(store.get(canUndoAtom)).toBe(false)
+  })
+
+  it('keeps the history in a store with an eviction policy', async () => {
+    const store = createStore({ evict: { maxSize: 1 } })
+    const xAtom = atom(0)
+    const { undoAtom, canUndoAtom } = atomWithGroupedHistory([xAtom])
+    expect(store.get(canUndoAtom)).toBe(false)
+    for (const x of [1, 2, 3]) {
+      store.set(xAtom, x)
+      await Promise.resolve()
+    }
+    store.set(undoAtom)
+    expect(store.get(xAtom)).toBe(2)
+    await Promise.resolve()
+    store.set(undoAtom)
+    expect(store.get(xAtom)).toBe(1)
+  })
+})
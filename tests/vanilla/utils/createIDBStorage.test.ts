@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createStore } from 'jotai/vanilla'
+import { atomWithStorage, createIDBStorage } from 'jotai/vanilla/utils'
+
+// A minimal in-memory IndexedDB, enough for createIDBStorage
+const createIDBFactory = () => {
+  type Database = { version: number; stores: Map<string, Map<string, unknown>> }
+  const databases = new Map<string, Database>()
+  const connections = new Set<Record<string, any>>()
+  const transactionCount = { readwrite: 0 }
+  const createRequest = (fn: () => unknown) => {
+    const request: Record<string, any> = {}
+    queueMicrotask(() => {
+      request.result = fn()
+      request.onsuccess?.()
+    })
+    return request
+  }
+  const createDB = (database: Database) => {
+    const db: Record<string, any> = {
+      version: database.version,
+      objectStoreNames: {
+        contains: (name: string) => database.stores.has(name),
+      },
+      createObjectStore: (name: string) => {
+        database.stores.set(name, new Map())
+      },
+      transaction: (name: string, mode = 'readonly') => {
+        if (!database.stores.has(name)) {
+          throw new DOMException('No object store', 'NotFoundError')
+        }
+        if (mode === 'readwrite') {
+          ++transactionCount.readwrite
+        }
+        const data = database.stores.get(name)!
+        const transaction: Record<string, any> = {
+          objectStore: () => ({
+            get: (key: string) =>
+              createRequest(() => structuredClone(data.get(key))),
+            put: (value: unknown, key: string) => {
+              data.set(key, structuredClone(value))
+            },
+            delete: (key: string) => {
+              data.delete(key)
+            },
+          }),
+        }
+        setTimeout(() => transaction.oncomplete?.())
+        return transaction
+      },
+      close: () => {
+        connections.delete(db)
+      },
+    }
+    connections.add(db)
+    return db
+  }
+  const factory = {
+    open: (name: string, version?: number) => {
+      const request: Record<string, any> = {}
+      setTimeout(() => {
+        let database = databases.get(name)
+        if (database && version !== undefined && version < database.version) {
+          request.error = new DOMException('Lower version', 'VersionError')
+          request.onerror?.()
+          return
+        }
+        if (
+          !database ||
+          (version !== undefined && version > database.version)
+        ) {
+          connections.forEach((db) => db.onversionchange?.())
+          if (!database) {
+            database = { version: 0, stores: new Map() }
+            databases.set(name, database)
+          }
+          database.version = version ?? 1
+          request.result = createDB(database)
+          request.onupgradeneeded?.()
+        } else {
+          request.result = createDB(database)
+        }
+        request.onsuccess?.()
+      })
+      return request
+    },
+  }
+  return [factory as unknown as IDBFactory, transactionCount] as const
+}
+
+describe('createIDBStorage', () => {
+  it('stores structured-cloneable values', async () => {
+    const [indexedDB] = createIDBFactory()
+    const storage = createIDBStorage<unknown>({ indexedDB })
+    const value = { date: new Date(0), map: new Map([['a', 1]]) }
+    await storage.setItem('key', value)
+    const storedValue = (await storage.getItem('key', null)) as typeof value
+    expect(storedValue).not.toBe(value)
+    expect(storedValue.date.getTime()).toBe(0)
+    expect(storedValue.map.get('a')).toBe(1)
+    await storage.removeItem('key')
+    expect(await storage.getItem('key', null)).toBe(null)
+  })
+
+  it('batches writes in a microtask', async () => {
+    const [indexedDB, transactionCount] = createIDBFactory()
+    const storage = createIDBStorage<number>({ indexedDB })
+    const promise1 = storage.setItem('a', 1)
+    const promise2 = storage.setItem('b', 2)
+    expect(await storage.getItem('a', 0)).toBe(1)
+    await Promise.all([promise1, promise2])
+    expect(transactionCount.readwrite).toBe(1)
+    expect(await storage.getItem('b', 0)).toBe(2)
+  })
+
+  it('works with atomWithStorage', async () => {
+    const [indexedDB] = createIDBFactory()
+    const storage = createIDBStorage<number>({ indexedDB })
+    await storage.setItem('count', 10)
+    const store = createStore()
+    const countAtom = atomWithStorage('count', 0, storage, { getOnInit: true })
+    expect(await store.get(countAtom)).toBe(10)
+    await store.set(countAtom, 11)
+    expect(await storage.getItem('count', 0)).toBe(11)
+  })
+
+  it('notifies other storages of writes', async () => {
+    const [indexedDB] = createIDBFactory()
+    const storage1 = createIDBStorage<number>({ indexedDB })
+    const storage2 = createIDBStorage<number>({ indexedDB })
+    const callback = vi.fn()
+    const unsubscribe = storage2.subscribe!('count', callback, 0)
+    await storage1.setItem('count', 1)
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledWith(1))
+    unsubscribe()
+  })
+
+  it('adds object stores to an existing database', async () => {
+    const [indexedDB] = createIDBFactory()
+    const storage1 = createIDBStorage<number>({ indexedDB })
+    await storage1.setItem('count', 1)
+    const storage2 = createIDBStorage<number>({
+      indexedDB,
+      storeName: 'other',
+    })
+    await storage2.setItem('count', 2)
+    expect(await storage2.getItem('count', 0)).toBe(2)
+    expect(await storage1.getItem('count', 0)).toBe(1)
+    await storage1.setItem('count', 3)
+    expect(await storage1.getItem('count', 0)).toBe(3)
+  })
+
+  it('warns about failed writes that are not handled', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const error = new Error('failed to open')
+    const indexedDB = {
+      open: () => {
+        const request: Record<string, any> = {}
+        setTimeout(() => {
+          request.error = error
+          request.onerror?.()
+        })
+        return request
+      },
+    } as unknown as IDBFactory
+    const storage = createIDBStorage<number>({ indexedDB })
+    const store = createStore()
+    const countAtom = atomWithStorage('count', 0, storage)
+    store.set(countAtom, 1)
+    await vi.waitFor(() =>
+      expect(warn).toHaveBeenCalledWith('Failed to write to IndexedDB', error),
+    )
+    await expect(storage.setItem('count', 2)).rejects.toBe(error)
+    warn.mockRestore()
+  })
+})
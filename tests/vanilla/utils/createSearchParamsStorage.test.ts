@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createStore } from 'jotai/vanilla'
+import {
+  RESET,
+  atomWithStorage,
+  createSearchParamsStorage,
+} from 'jotai/vanilla/utils'
+
+const stubWindow = (url: string) => {
+  const location = new URL(url, 'https://example.com')
+  const navigate = (_state: unknown, _title: string, newUrl: string) => {
+    location.href = new URL(newUrl, location).href
+  }
+  const history = {
+    state: null,
+    pushState: vi.fn(navigate),
+    replaceState: vi.fn(navigate),
+  }
+  const win = Object.assign(new EventTarget(), { location, history })
+  vi.stubGlobal('window', win)
+  return win
+}
+
+describe('createSearchParamsStorage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('stores values in the query string with other keys', () => {
+    const win = stubWindow('/items?page=2#top')
+    const storage = createSearchParamsStorage<string[]>()
+    const store = createStore()
+    const tagsAtom = atomWithStorage('tags', [], storage, { getOnInit: true })
+    expect(store.get(tagsAtom)).toEqual([])
+    store.set(tagsAtom, ['a', 'b'])
+    expect(win.history.replaceState).toHaveBeenCalledTimes(1)
+    expect(win.location.pathname).toBe('/items')
+    expect(win.location.hash).toBe('#top')
+    const params = new URLSearchParams(win.location.search)
+    expect(params.get('page')).toBe('2')
+    expect(params.get('tags')).toBe('["a","b"]')
+    store.set(tagsAtom, RESET)
+    expect(win.location.search).toBe('?page=2')
+  })
+
+  it('stores values in the hash with pushState', () => {
+    const win = stubWindow('/items?page=2')
+    const storage = createSearchParamsStorage<string>({
+      mode: 'hash',
+      history: 'push',
+      serialize: (value) => value,
+      deserialize: (str) => str,
+    })
+    const store = createStore()
+    const queryAtom = atomWithStorage('q', '', storage)
+    store.set(queryAtom, 'jotai')
+    expect(win.history.pushState).toHaveBeenCalledTimes(1)
+    expect(win.location.search).toBe('?page=2')
+    expect(win.location.hash).toBe('#q=jotai')
+    store.set(queryAtom, 'jotai')
+    expect(win.history.pushState).toHaveBeenCalledTimes(1)
+  })
+
+  it('reads values from the URL and ignores invalid ones', () => {
+    stubWindow('/?count=3&invalid={')
+    const storage = createSearchParamsStorage<number>()
+    expect(storage.getItem('count', 0)).toBe(3)
+    expect(storage.getItem('invalid', 0)).toBe(0)
+    expect(storage.getItem('missing', 0)).toBe(0)
+  })
+
+  it('updates atoms on history navigation', () => {
+    const win = stubWindow('/?count=1')
+    const storage = createSearchParamsStorage<number>()
+    const store = createStore()
+    const countAtom = atomWithStorage('count', 0, storage)
+    const unsub = store.sub(countAtom, () => {})
+    expect(store.get(countAtom)).toBe(1)
+    win.location.href = new URL('/?count=5', win.location).href
+    win.dispatchEvent(new Event('popstate'))
+    expect(store.get(countAtom)).toBe(5)
+    unsub()
+  })
+})
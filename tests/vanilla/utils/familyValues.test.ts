@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest'
+import { atom, createStore } from 'jotai/vanilla'
+import {
+  atomFamily,
+  atomWithDefault,
+  atomWithReducer,
+  familyValuesAtom,
+  resetFamily,
+} from 'jotai/vanilla/utils'
+
+describe('familyValuesAtom', () => {
+  it('has values of all members', () => {
+    const store = createStore()
+    const todoFamily = atomFamily((id: number) => atom(`todo${id}`))
+    todoFamily(1)
+    const valuesAtom = familyValuesAtom(todoFamily)
+    const listener = vi.fn()
+    store.sub(valuesAtom, listener)
+    expect(store.get(valuesAtom)).toEqual(new Map([[1, 'todo1']]))
+    todoFamily(2)
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(store.get(valuesAtom)).toEqual(
+      new Map([
+        [1, 'todo1'],
+        [2, 'todo2'],
+      ]),
+    )
+    store.set(todoFamily(1), 'done')
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(store.get(valuesAtom).get(1)).toBe('done')
+    todoFamily.remove(1)
+    expect(listener).toHaveBeenCalledTimes(3)
+    expect(store.get(valuesAtom)).toEqual(new Map([[2, 'todo2']]))
+  })
+})
+
+describe('resetFamily', () => {
+  it('resets values of all members', () => {
+    const store = createStore()
+    const baseAtom = atom(1)
+    const draftFamily = atomFamily((id: number) => atom(`draft${id}`))
+    const countFamily = atomFamily((id: number) =>
+      atomWithDefault((get) => get(baseAtom) * id),
+    )
+    store.set(draftFamily(1), 'edited')
+    store.set(draftFamily(2), 'edited')
+    store.set(countFamily(2), 10)
+    const listener = vi.fn()
+    store.sub(familyValuesAtom(draftFamily), listener)
+    resetFamily(store, draftFamily)
+    resetFamily(store, countFamily)
+    expect(store.get(draftFamily(1))).toBe('draft1')
+    expect(store.get(draftFamily(2))).toBe('draft2')
+    expect(store.get(countFamily(2))).toBe(2)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('resets values without calling write functions', () => {
+    const store = createStore()
+    const reducer = vi.fn((count: number, action: 'inc') =>
+      action === 'inc' ? count + 1 : count,
+    )
+    const countFamily = atomFamily((_id: number) => atomWithReducer(0, reducer))
+    store.set(countFamily(1), 'inc')
+    store.set(countFamily(2), 'inc')
+    reducer.mockClear()
+    resetFamily(store, countFamily)
+    expect(store.get(countFamily(1))).toBe(0)
+    expect(store.get(countFamily(2))).toBe(0)
+    expect(reducer).not.toHaveBeenCalled()
+  })
+})
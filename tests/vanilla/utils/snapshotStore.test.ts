@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest'
+import { atom, createStore } from 'jotai/vanilla'
+import {
+  atomFamily,
+  atomWithReducer,
+  restoreStore,
+  snapshotStore,
+} from 'jotai/vanilla/utils'
+
+describe('snapshotStore', () => {
+  it('takes a JSON-serializable snapshot of atoms', async () => {
+    const store = createStore()
+    const countAtom = atom(1)
+    const doubleAtom = atom((get) => get(countAtom) * 2)
+    const asyncAtom = atom(Promise.resolve('async'))
+    const errorAtom = atom(() => {
+      throw new TypeError('failed')
+    })
+    const rejectedAtom = atom(async () => {
+      throw new Error('rejected')
+    })
+    store.set(countAtom, 2)
+    const snapshot = await snapshotStore(store, {
+      registry: {
+        count: countAtom,
+        double: doubleAtom,
+        async: asyncAtom,
+        error: errorAtom,
+        rejected: rejectedAtom,
+      },
+    })
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual({
+      count: { v: 2 },
+      double: { v: 4 },
+      async: { v: 'async', p: true },
+      error: { e: { name: 'TypeError', message: 'failed' } },
+      rejected: { e: { name: 'Error', message: 'rejected' }, p: true },
+    })
+  })
+
+  it('skips private atoms', async () => {
+    const store = createStore()
+    const countAtom = atom(1)
+    const privateAtom = atom(2)
+    privateAtom.debugPrivate = true
+    const snapshot = await snapshotStore(store, {
+      atoms: [countAtom, privateAtom],
+    })
+    expect(snapshot).toEqual({ [String(countAtom)]: { v: 1 } })
+  })
+})
+
+describe('restoreStore', () => {
+  it('restores values into another store', async () => {
+    const countAtom = atom(0)
+    const doubleAtom = atom((get) => get(countAtom) * 2)
+    const asyncAtom = atom(Promise.resolve('initial'))
+    const registry = { count: countAtom, double: doubleAtom, async: asyncAtom }
+
+    const serverStore = createStore()
+    serverStore.set(countAtom, 3)
+    serverStore.set(asyncAtom, Promise.resolve('server'))
+    const snapshot = JSON.parse(
+      JSON.stringify(await snapshotStore(serverStore, { registry })),
+    )
+
+    const clientStore = createStore()
+    const callback = vi.fn()
+    clientStore.sub(doubleAtom, callback)
+    restoreStore(clientStore, snapshot, { registry })
+    expect(clientStore.get(countAtom)).toBe(3)
+    expect(clientStore.get(doubleAtom)).toBe(6)
+    expect(callback).toHaveBeenCalledTimes(1)
+    await expect(clientStore.get(asyncAtom)).resolves.toBe('server')
+  })
+
+  it('restores values without calling write functions', async () => {
+    const counterAtom = atomWithReducer(0, (count, action: 'inc') =>
+      action === 'inc' ? count + 1 : count,
+    )
+    const write = vi.fn()
+    const customAtom = atom(0, write)
+    const registry = { counter: counterAtom, custom: customAtom }
+
+    const serverStore = createStore()
+    serverStore.set(counterAtom, 'inc')
+    serverStore.set(counterAtom, 'inc')
+    const snapshot = await snapshotStore(serverStore, { registry })
+    expect(snapshot).toEqual({ counter: { v: 2 }, custom: { v: 0 } })
+
+    const clientStore = createStore()
+    restoreStore(clientStore, snapshot, { registry })
+    expect(clientStore.get(counterAtom)).toBe(2)
+    expect(write).not.toHaveBeenCalled()
+  })
+
+  it('restores rejected promises', async () => {
+    const asyncAtom = atom(Promise.resolve('initial'))
+    const store = createStore()
+    restoreStore(
+      store,
+      { async: { e: { name: 'Error', message: 'rejected' }, p: true } },
+      { registry: { async: asyncAtom } },
+    )
+    await expect(store.get(asyncAtom)).rejects.toThrow('rejected')
+  })
+})
+
+describe('snapshotStore with families', () => {
+  it('includes every family member', async () => {
+    const countAtom = atom(0)
+    const draftFamily = atomFamily((_param: { id: number }) => atom(''), {
+      key: (param) => param.id,
+    })
+    const serverStore = createStore()
+    serverStore.set(draftFamily({ id: 1 }), 'a')
+    serverStore.set(draftFamily({ id: 2 }), 'b')
+    const snapshot = await snapshotStore(serverStore, {
+      atoms: [],
+      families: { draft: draftFamily },
+    })
+    expect(snapshot).toEqual({
+      'draft/{"id":1}': { v: 'a' },
+      'draft/{"id":2}': { v: 'b' },
+    })
+
+    const clientFamily = atomFamily((_param: { id: number }) => atom(''), {
+      key: (param) => param.id,
+    })
+    const clientStore = createStore()
+    restoreStore(clientStore, snapshot, {
+      registry: { count: countAtom },
+      families: { draft: clientFamily },
+    })
+    expect(clientStore.get(clientFamily({ id: 1 }))).toBe('a')
+    expect(clientStore.get(clientFamily({ id: 2 }))).toBe('b')
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { atom, createStore } from 'jotai/vanilla'
+import { splitRecordAtom } from 'jotai/vanilla/utils'
+
+describe('splitRecordAtom', () => {
+  it('splits a record into atoms per key', () => {
+    const store = createStore()
+    const recordAtom = atom<Record<string, number>>({ a: 1, b: 2 })
+    const splittedAtom = splitRecordAtom(recordAtom)
+    store.sub(splittedAtom, () => {})
+    const atoms = store.get(splittedAtom)
+    expect(Object.keys(atoms)).toEqual(['a', 'b'])
+    expect(store.get(atoms.a!)).toBe(1)
+    store.set(atoms.b!, (prev) => prev + 1)
+    expect(store.get(recordAtom)).toEqual({ a: 1, b: 3 })
+    expect(store.get(splittedAtom)).toBe(atoms)
+  })
+
+  it('keeps atoms of unchanged keys across actions', () => {
+    const store = createStore()
+    const recordAtom = atom<Record<string, string>>({ a: 'x', b: 'y' })
+    const splittedAtom = splitRecordAtom(recordAtom)
+    store.sub(splittedAtom, () => {})
+    const { a, b } = store.get(splittedAtom)
+    store.set(splittedAtom, { type: 'insert', key: 'c', value: 'z' })
+    expect(store.get(recordAtom)).toEqual({ a: 'x', b: 'y', c: 'z' })
+    expect(store.get(splittedAtom).a).toBe(a)
+    store.set(splittedAtom, { type: 'remove', key: 'a' })
+    expect(store.get(recordAtom)).toEqual({ b: 'y', c: 'z' })
+    expect(store.get(splittedAtom).b).toBe(b)
+    store.set(splittedAtom, { type: 'rename', key: 'b', newKey: 'd' })
+    expect(store.get(recordAtom)).toEqual({ d: 'y', c: 'z' })
+    expect(Object.keys(store.get(splittedAtom))).toEqual(['d', 'c'])
+    expect(store.get(store.get(splittedAtom).d!)).toBe('y')
+  })
+
+  it('splits a Map with non-string keys', () => {
+    const store = createStore()
+    const key1 = { id: 1 }
+    const key2 = { id: 2 }
+    const mapAtom = atom(
+      new Map([
+        [key1, 'a'],
+        [key2, 'b'],
+      ]),
+    )
+    const splittedAtom = splitRecordAtom(mapAtom)
+    store.sub(splittedAtom, () => {})
+    const atoms = store.get(splittedAtom)
+    expect(atoms).toBeInstanceOf(Map)
+    store.set(atoms.get(key1)!, 'c')
+    expect(store.get(mapAtom).get(key1)).toBe('c')
+    store.set(splittedAtom, { type: 'remove', key: key1 })
+    expect(Array.from(store.get(mapAtom).keys())).toEqual([key2])
+    expect(store.get(splittedAtom).get(key2)).toBe(atoms.get(key2))
+  })
+
+  it('splits a read-only atom', () => {
+    const store = createStore()
+    const baseAtom = atom<Record<string, number>>({ a: 1 })
+    const splittedAtom = splitRecordAtom(atom((get) => get(baseAtom)))
+    const { a } = store.get(splittedAtom)
+    expect(store.get(a!)).toBe(1)
+    store.set(baseAtom, { a: 2 })
+    expect(store.get(a!)).toBe(2)
+    expect(store.get(splittedAtom).a).toBe(a)
+  })
+})